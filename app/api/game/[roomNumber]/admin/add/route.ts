@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { addPlayer, getAlivePlayers, normalizeName, toHostGameState } from '@/lib/game'
+import { isHostRequest } from '@/lib/auth'
+import { publishGameEvent } from '@/lib/events'
+import { getGameStore } from '@/lib/store'
+import { MAX_PLAYERS, readJsonBody, validatePlayerNameBody, validationErrorResponse } from '@/lib/validation'
+
+// Adds a latecomer to a running game; they claim their mission like everyone else (host only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const validation = validatePlayerNameBody(await readJsonBody(request))
+    if (!validation.ok) {
+      return validationErrorResponse(validation.issues)
+    }
+    const { playerName } = validation.value
+    const store = getGameStore()
+    
+    const state = await store.getGame(roomNumber)
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    
+    if (!isHostRequest(request, state)) {
+      return NextResponse.json({ error: 'Host session required' }, { status: 401 })
+    }
+    const expectedRevision = state.revision ?? 0
+    
+    if (state.players.length >= MAX_PLAYERS) {
+      return NextResponse.json({ error: `A game can have at most ${MAX_PLAYERS} players` }, { status: 400 })
+    }
+    if (getAlivePlayers(state).length === 0) {
+      return NextResponse.json({ error: 'Nobody is left to hunt the new player' }, { status: 400 })
+    }
+    
+    const player = addPlayer(state, playerName, 'host')
+    if (!player) {
+      return NextResponse.json({ error: 'A player with this name already exists' }, { status: 409 })
+    }
+    
+    // Save back, unless someone else wrote in the meantime
+    const saved = await store.compareAndSetGame(roomNumber, expectedRevision, state)
+    if (!saved) {
+      return NextResponse.json({ error: 'Game was updated concurrently, please retry' }, { status: 409 })
+    }
+    
+    // Keep the latecomer (and their team) when the room is reset
+    const config = await store.getRoomConfig(roomNumber)
+    if (config) {
+      const teams = config.teams?.map((team) =>
+        normalizeName(team.name) === player.team ? { ...team, members: [...team.members, player.name] } : team
+      )
+      await store.setRoomConfig(roomNumber, { ...config, playerNames: [...config.playerNames, player.name], teams })
+    }
+    
+    await publishGameEvent(roomNumber, 'moderated', state)
+    
+    return NextResponse.json({ success: true, state: toHostGameState(state) })
+  } catch (error) {
+    console.error('Error adding player:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
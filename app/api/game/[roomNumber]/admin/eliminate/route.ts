@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyElimination, findHunter, isAlive, toHostGameState } from '@/lib/game'
+import { isHostRequest } from '@/lib/auth'
+import { publishGameEvent } from '@/lib/events'
+import { archiveFinishedGame } from '@/lib/history'
+import { getGameStore } from '@/lib/store'
+import { readJsonBody, validatePlayerNameBody, validationErrorResponse } from '@/lib/validation'
+
+// Eliminates a player without a reported kill; their hunter is credited and inherits the mission (host only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const validation = validatePlayerNameBody(await readJsonBody(request))
+    if (!validation.ok) {
+      return validationErrorResponse(validation.issues)
+    }
+    const { playerName } = validation.value
+    const store = getGameStore()
+    
+    const state = await store.getGame(roomNumber)
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    
+    if (!isHostRequest(request, state)) {
+      return NextResponse.json({ error: 'Host session required' }, { status: 401 })
+    }
+    const expectedRevision = state.revision ?? 0
+    
+    if (state.endedAt) {
+      return NextResponse.json({ error: 'Game is over' }, { status: 400 })
+    }
+    
+    const player = state.players.find((p) => p.nameNormalized === playerName)
+    if (!player) {
+      return NextResponse.json({ error: 'Player not found in game' }, { status: 404 })
+    }
+    
+    if (!isAlive(state, playerName)) {
+      return NextResponse.json({ error: 'Player is not in the game' }, { status: 400 })
+    }
+    
+    applyElimination(state, findHunter(state, playerName), playerName, 'host')
+    
+    // Save back, unless someone else wrote in the meantime
+    const saved = await store.compareAndSetGame(roomNumber, expectedRevision, state)
+    if (!saved) {
+      return NextResponse.json({ error: 'Game was updated concurrently, please retry' }, { status: 409 })
+    }
+    
+    await archiveFinishedGame(state)
+    await publishGameEvent(roomNumber, 'moderated', state)
+    
+    return NextResponse.json({ success: true, state: toHostGameState(state) })
+  } catch (error) {
+    console.error('Error eliminating player:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pauseClock, toHostGameState } from '@/lib/game'
+import { isHostRequest } from '@/lib/auth'
+import { publishGameEvent } from '@/lib/events'
+import { getGameStore } from '@/lib/store'
+
+// Stops the game clock, e.g. during dinner: rooms stop rotating and a timed game's deadline waits (host only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const store = getGameStore()
+    
+    const state = await store.getGame(roomNumber)
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    
+    if (!isHostRequest(request, state)) {
+      return NextResponse.json({ error: 'Host session required' }, { status: 401 })
+    }
+    const expectedRevision = state.revision ?? 0
+    
+    if (!pauseClock(state, 'host')) {
+      return NextResponse.json({ error: 'Clock is already paused or the game is over' }, { status: 400 })
+    }
+    
+    // Save back, unless someone else wrote in the meantime
+    const saved = await store.compareAndSetGame(roomNumber, expectedRevision, state)
+    if (!saved) {
+      return NextResponse.json({ error: 'Game was updated concurrently, please retry' }, { status: 409 })
+    }
+    
+    await publishGameEvent(roomNumber, 'moderated', state)
+    
+    return NextResponse.json({ success: true, state: toHostGameState(state) })
+  } catch (error) {
+    console.error('Error pausing game clock:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
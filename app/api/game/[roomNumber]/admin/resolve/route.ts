@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { appendGameLog, applyElimination, isAlive, toHostGameState } from '@/lib/game'
+import { isHostRequest } from '@/lib/auth'
+import { publishGameEvent } from '@/lib/events'
+import { archiveFinishedGame } from '@/lib/history'
+import { getGameStore } from '@/lib/store'
+import { readJsonBody, validateResolveEliminationBody, validationErrorResponse } from '@/lib/validation'
+
+// The host settles a pending or disputed kill (host only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const validation = validateResolveEliminationBody(await readJsonBody(request))
+    if (!validation.ok) {
+      return validationErrorResponse(validation.issues)
+    }
+    const { id, approve } = validation.value
+    const store = getGameStore()
+    
+    const state = await store.getGame(roomNumber)
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    
+    if (!isHostRequest(request, state)) {
+      return NextResponse.json({ error: 'Host session required' }, { status: 401 })
+    }
+    const expectedRevision = state.revision ?? 0
+    
+    const pending = state.pendingEliminations.find((p) => p.id === id)
+    if (!pending) {
+      return NextResponse.json({ error: 'Pending elimination not found' }, { status: 404 })
+    }
+    
+    const now = Date.now()
+    if (approve && isAlive(state, pending.victim)) {
+      applyElimination(state, pending.killer, pending.victim, 'host', false, now)
+    } else {
+      state.pendingEliminations = state.pendingEliminations.filter((p) => p.id !== id)
+      appendGameLog(state, 'elimination_rejected', 'host', pending.victim, now)
+    }
+    
+    // Save back, unless someone else wrote in the meantime
+    const saved = await store.compareAndSetGame(roomNumber, expectedRevision, state)
+    if (!saved) {
+      return NextResponse.json({ error: 'Game was updated concurrently, please retry' }, { status: 409 })
+    }
+    
+    await archiveFinishedGame(state)
+    await publishGameEvent(roomNumber, approve ? 'eliminated' : 'pending', state)
+    
+    return NextResponse.json({ success: true, state: toHostGameState(state) })
+  } catch (error) {
+    console.error('Error resolving elimination:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resumeClock, toHostGameState } from '@/lib/game'
+import { isHostRequest } from '@/lib/auth'
+import { publishGameEvent } from '@/lib/events'
+import { getGameStore } from '@/lib/store'
+
+// Restarts the game clock where it stopped (host only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const store = getGameStore()
+    
+    const state = await store.getGame(roomNumber)
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    
+    if (!isHostRequest(request, state)) {
+      return NextResponse.json({ error: 'Host session required' }, { status: 401 })
+    }
+    const expectedRevision = state.revision ?? 0
+    
+    if (!resumeClock(state, 'host')) {
+      return NextResponse.json({ error: 'Clock is not paused' }, { status: 400 })
+    }
+    
+    // Save back, unless someone else wrote in the meantime
+    const saved = await store.compareAndSetGame(roomNumber, expectedRevision, state)
+    if (!saved) {
+      return NextResponse.json({ error: 'Game was updated concurrently, please retry' }, { status: 409 })
+    }
+    
+    await publishGameEvent(roomNumber, 'moderated', state)
+    
+    return NextResponse.json({ success: true, state: toHostGameState(state) })
+  } catch (error) {
+    console.error('Error resuming game clock:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { GameUpdateEvent } from '@/lib/game'
+import { appendGameLog, applyDeadline, applyElimination, applyExpiredEliminations, getPlayerView } from '@/lib/game'
+import { getRequestPlayer } from '@/lib/auth'
+import { publishGameEvent } from '@/lib/events'
+import { archiveFinishedGame } from '@/lib/history'
+import { getGameStore } from '@/lib/store'
+import { readJsonBody, validateConfirmEliminationBody, validationErrorResponse } from '@/lib/validation'
+
+// The victim answers a kill reported against them: confirming applies it,
+// disputing hands it to the host
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const validation = validateConfirmEliminationBody(await readJsonBody(request))
+    if (!validation.ok) {
+      return validationErrorResponse(validation.issues)
+    }
+    const { confirmed } = validation.value
+    const store = getGameStore()
+    
+    const state = await store.getGame(roomNumber)
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    const expectedRevision = state.revision ?? 0
+    
+    const victimName = getRequestPlayer(request, state)
+    if (!victimName) {
+      return NextResponse.json({ error: 'Invalid player token' }, { status: 401 })
+    }
+    
+    const now = Date.now()
+    const expired = applyExpiredEliminations(state, now)
+    const timeUp = applyDeadline(state, victimName, now)
+    
+    const pending = state.pendingEliminations.find((p) => p.victim === victimName && p.status === 'pending')
+    if (!pending) {
+      // Too late: the kill already went through (or there was nothing to answer)
+      if (expired.length === 0 && !timeUp) {
+        return NextResponse.json({ error: 'No pending elimination to answer' }, { status: 404 })
+      }
+    } else if (confirmed) {
+      applyElimination(state, pending.killer, victimName, victimName, false, now)
+    } else {
+      pending.status = 'disputed'
+      appendGameLog(state, 'elimination_disputed', victimName, victimName, now)
+    }
+    
+    // Save back, unless someone else wrote in the meantime
+    const saved = await store.compareAndSetGame(roomNumber, expectedRevision, state)
+    if (!saved) {
+      return NextResponse.json({ error: 'Game was updated concurrently, please retry' }, { status: 409 })
+    }
+    
+    await archiveFinishedGame(state)
+    const eventType: GameUpdateEvent['type'] = pending && !confirmed ? 'pending' : 'eliminated'
+    await publishGameEvent(roomNumber, eventType, state)
+    
+    return NextResponse.json({ success: true, view: getPlayerView(state, victimName, now) })
+  } catch (error) {
+    console.error('Error answering elimination:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,119 +1,146 @@
 import { NextRequest, NextResponse } from 'next/server'
-import type { GameStateV1 } from '@/lib/game'
-import { normalizeName } from '@/lib/game'
-// @ts-ignore - ioredis types will be available after npm install
-import Redis from 'ioredis'
-
-// Redis client - reuse connection
-let redis: Redis | null = null
-
-function getRedis(): Redis | null {
-  if (redis) return redis
-  
-  const redisUrl = process.env.REDIS_URL
-  if (!redisUrl) {
-    console.log('REDIS_URL not set, using in-memory storage')
-    return null
-  }
-  
-  try {
-    redis = new Redis(redisUrl, {
-      maxRetriesPerRequest: 3,
-      retryStrategy: (times: number) => {
-        const delay = Math.min(times * 50, 2000)
-        return delay
-      },
-    })
-    return redis
-  } catch (e) {
-    console.error('Failed to connect to Redis:', e)
-    return null
-  }
-}
-
-// Fallback in-memory storage (only works for single instance, not Vercel production)
-const gameStates = new Map<string, GameStateV1>()
+import type { GameUpdateEvent } from '@/lib/game'
+import {
+  appendGameLog,
+  applyElimination,
+  applyDeadline,
+  applyExpiredEliminations,
+  findHunter,
+  getPlayerView,
+  isAlive,
+  isValidTarget,
+} from '@/lib/game'
+import { getRequestPlayer } from '@/lib/auth'
+import { publishGameEvent } from '@/lib/events'
+import { archiveFinishedGame } from '@/lib/history'
+import { getGameStore } from '@/lib/store'
+import { readJsonBody, validateEliminationBody, validationErrorResponse } from '@/lib/validation'
 
+// Killers report kills here; the kill stays pending until the victim confirms it or the
+// room's confirmation timeout passes. Victims report their own death with selfReported.
 export async function POST(
   request: NextRequest,
   { params }: { params: { roomNumber: string } }
 ) {
   try {
     const roomNumber = params.roomNumber
-    const { killerNameNormalized, targetNameNormalized } = await request.json()
-    const redisClient = getRedis()
-    
-    // Load current game state
-    let state: GameStateV1 | null = null
-    if (redisClient) {
-      const stateJson = await redisClient.get(`game:${roomNumber}`)
-      if (stateJson) {
-        state = JSON.parse(stateJson) as GameStateV1
-      }
-    } else {
-      state = gameStates.get(roomNumber) || null
+    const validation = validateEliminationBody(await readJsonBody(request))
+    if (!validation.ok) {
+      return validationErrorResponse(validation.issues)
     }
+    const { killerNameNormalized, targetNameNormalized } = validation.value
+    const store = getGameStore()
     
+    // Load current game state
+    const state = await store.getGame(roomNumber)
     if (!state) {
       return NextResponse.json({ error: 'Room not found' }, { status: 404 })
     }
+    const expectedRevision = state.revision ?? 0
 
-    // Ensure eliminations field exists (for backward compatibility)
-    if (!state.eliminations) {
-      state.eliminations = {}
-    }
-
-    // Check if killer exists and has a mission
-    const killerAssignment = state.assignmentsByName[killerNameNormalized]
-    if (!killerAssignment) {
-      return NextResponse.json({ error: 'Killer not found in game' }, { status: 400 })
-    }
+    // Self-reported deaths come without a killer
+    const isSelfReportedDeath = killerNameNormalized === null
 
-    // Check if target exists and has a mission
-    const targetAssignment = state.assignmentsByName[targetNameNormalized]
-    if (!targetAssignment) {
-      return NextResponse.json({ error: 'Target not found in game' }, { status: 400 })
+    // Only the killer (or the dead player, for self-reports) may report
+    const reporterName = getRequestPlayer(request, state)
+    const expectedReporter = isSelfReportedDeath ? targetNameNormalized : killerNameNormalized
+    if (!reporterName || reporterName !== expectedReporter) {
+      return NextResponse.json({ error: 'Invalid player token' }, { status: 401 })
     }
 
-    // Check if this is a self-reported death (starts with "dead_")
-    const isSelfReportedDeath = killerNameNormalized.startsWith('dead_')
+    // Kills whose victim never answered go through first, then the game's time limit
+    const now = Date.now()
+    const expired = applyExpiredEliminations(state, now)
+    const timeUp = applyDeadline(state, reporterName, now)
+    
+    // Reporting again once the timeout has passed is how the killer's device applies the kill
+    const applied = !isSelfReportedDeath && expired.some(
+      (p) => p.killer === killerNameNormalized && p.victim === targetNameNormalized
+    )
     
-    if (!isSelfReportedDeath) {
-      // Verify that the target is actually the killer's target
-      const killerTargetNormalized = normalizeName(killerAssignment.targetName)
-      if (killerTargetNormalized !== targetNameNormalized) {
-        return NextResponse.json({ error: 'Target is not the killer\'s assigned target' }, { status: 400 })
+    if (!applied) {
+      if (state.endedAt) {
+        // Time ran out before this report: keep the final result, then turn the report down
+        if (timeUp && (await store.compareAndSetGame(roomNumber, expectedRevision, state))) {
+          await archiveFinishedGame(state)
+          await publishGameEvent(roomNumber, 'time_up', state)
+        }
+        return NextResponse.json({ error: 'Game is over' }, { status: 400 })
+      }
+      
+      // Check if target exists and has a mission
+      const target = state.players.find((p) => p.nameNormalized === targetNameNormalized)
+      if (!target || !state.assignmentsByName[targetNameNormalized]) {
+        return NextResponse.json({ error: 'Target not found in game' }, { status: 400 })
       }
-    }
 
-    // Check if target was already eliminated
-    const alreadyEliminated = Object.values(state.eliminations).includes(targetNameNormalized)
-    if (alreadyEliminated) {
-      return NextResponse.json({ error: 'Target already eliminated' }, { status: 400 })
-    }
+      if (!isSelfReportedDeath) {
+        // Check if killer exists, has a mission and is still playing
+        const killerAssignment = state.assignmentsByName[killerNameNormalized]
+        if (!killerAssignment) {
+          return NextResponse.json({ error: 'Killer not found in game' }, { status: 400 })
+        }
+        if (!isAlive(state, killerNameNormalized)) {
+          return NextResponse.json({ error: 'Killer is no longer in the game' }, { status: 400 })
+        }
 
-    // Record the elimination
-    state.eliminations[killerNameNormalized] = targetNameNormalized
+        // Verify that the target is actually the killer's target (or on the team their team hunts)
+        if (!isValidTarget(state, killerNameNormalized, targetNameNormalized)) {
+          return NextResponse.json({ error: 'Target is not the killer\'s assigned target' }, { status: 400 })
+        }
+      }
 
-    // Only inherit mission if not self-reported death
-    if (!isSelfReportedDeath) {
-      // Inherit the target's mission
-      // The killer's new target becomes the eliminated target's target
-      state.assignmentsByName[killerNameNormalized] = {
-        targetName: targetAssignment.targetName,
-        room: targetAssignment.room,
-        object: targetAssignment.object,
+      // Check if target was already eliminated (or removed)
+      if (!isAlive(state, targetNameNormalized)) {
+        return NextResponse.json({ error: 'Target already eliminated' }, { status: 400 })
       }
     }
 
-    // Save back
-    if (redisClient) {
-      await redisClient.set(`game:${roomNumber}`, JSON.stringify(state), 'EX', 86400)
-    } else {
-      gameStates.set(roomNumber, state)
+    const pending = state.pendingEliminations.find((p) => p.victim === targetNameNormalized)
+    let eventType: GameUpdateEvent['type'] = expired.length > 0 ? 'eliminated' : timeUp ? 'time_up' : 'pending'
+    
+    if (isSelfReportedDeath) {
+      // Admitting a reported kill confirms it; otherwise credit whoever was hunting the player
+      if (pending) {
+        applyElimination(state, pending.killer, targetNameNormalized, reporterName, false, now)
+      } else {
+        applyElimination(state, findHunter(state, targetNameNormalized), targetNameNormalized, reporterName, true, now)
+      }
+      eventType = 'eliminated'
+    } else if (!applied) {
+      if (pending && pending.killer !== killerNameNormalized) {
+        return NextResponse.json({ error: 'Target already has a pending elimination' }, { status: 400 })
+      }
+      
+      // The kill waits for the victim's confirmation (or the timeout)
+      if (!pending) {
+        state.pendingEliminations.push({
+          id: crypto.randomUUID(),
+          killer: killerNameNormalized,
+          victim: targetNameNormalized,
+          reportedAt: now,
+          status: 'pending',
+        })
+        appendGameLog(state, 'elimination_reported', reporterName, targetNameNormalized, now)
+      } else if (expired.length === 0 && !timeUp) {
+        // Already reported and nothing changed
+        return NextResponse.json({ success: true, pending: true, view: getPlayerView(state, reporterName, now) })
+      }
     }
+
+    // Save back, unless someone else wrote in the meantime
+    const saved = await store.compareAndSetGame(roomNumber, expectedRevision, state)
+    if (!saved) {
+      return NextResponse.json({ error: 'Game was updated concurrently, please retry' }, { status: 409 })
+    }
+    
+    // The last kill archives the game to its party group's history
+    await archiveFinishedGame(state)
+    await publishGameEvent(roomNumber, eventType, state)
     
-    return NextResponse.json({ success: true, state })
+    // Reply with the reporter's own view only
+    const view = getPlayerView(state, reporterName, now)
+    return NextResponse.json({ success: true, pending: Boolean(view?.pendingReport), view })
   } catch (error) {
     console.error('Error processing elimination:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
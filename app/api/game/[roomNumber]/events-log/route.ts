@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isHostRequest } from '@/lib/auth'
+import { getGameStore } from '@/lib/store'
+
+// Full audit trail of the room, oldest first (host only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const state = await getGameStore().getGame(roomNumber)
+    
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    
+    if (!isHostRequest(request, state)) {
+      return NextResponse.json({ error: 'Host session required' }, { status: 401 })
+    }
+    
+    return NextResponse.json({ roomNumber, events: state.eventLog || [] })
+  } catch (error) {
+    console.error('Error fetching event log:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
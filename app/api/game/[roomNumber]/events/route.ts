@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { GameStateLatest, GameUpdateEvent, HostGameState } from '@/lib/game'
+import {
+  getTimeUntilGameEnd,
+  getTimeUntilNextPendingExpiry,
+  getTimeUntilNextRoomChange,
+} from '@/lib/game'
+import { getGameWithDueChanges } from '@/lib/clock'
+import { getGameEventBus } from '@/lib/events'
+
+export const dynamic = 'force-dynamic'
+
+// Comment lines keep proxies from closing an idle stream
+const KEEP_ALIVE_MS = 25000
+// Fire rotation events just after the boundary, never just before it
+const ROTATION_SLACK_MS = 50
+
+// Server-sent event stream of claim, elimination and rotation updates for a room
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const state = await getGameWithDueChanges(roomNumber)
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+    
+    const stream = new ReadableStream({
+      start(controller) {
+        let closed = false
+        let rotationTimer: ReturnType<typeof setTimeout> | null = null
+        let deadlineTimer: ReturnType<typeof setTimeout> | null = null
+        let pendingTimer: ReturnType<typeof setTimeout> | null = null
+        
+        const write = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            cleanup()
+          }
+        }
+        const send = (event: GameUpdateEvent) => write(`data: ${JSON.stringify(event)}\n\n`)
+        
+        // Rooms rotate on a clock rather than on a write, so schedule those pushes here
+        const scheduleRotation = (current: GameStateLatest | HostGameState) => {
+          if (rotationTimer) clearTimeout(rotationTimer)
+          const delay = getTimeUntilNextRoomChange(current)
+          if (delay === null) return
+          rotationTimer = setTimeout(() => {
+            send({ type: 'rotation', at: Date.now() })
+            scheduleRotation(current)
+          }, delay + ROTATION_SLACK_MS)
+        }
+        
+        // Timed games end (or go to sudden death) at their deadline even if nobody writes;
+        // every open stream loads the game, compare-and-set lets only one of them apply it
+        const scheduleDeadline = (current: GameStateLatest | HostGameState) => {
+          if (deadlineTimer) clearTimeout(deadlineTimer)
+          const delay = getTimeUntilGameEnd(current)
+          if (delay === null || current.clockPausedAt) return
+          deadlineTimer = setTimeout(async () => {
+            try {
+              await getGameWithDueChanges(roomNumber)
+            } catch (error) {
+              console.error('Error applying game deadline:', error)
+            }
+          }, delay + ROTATION_SLACK_MS)
+        }
+        
+        // Unanswered kills go through at their timeout; loading the game applies and publishes them
+        const schedulePendingExpiry = (current: GameStateLatest | HostGameState) => {
+          if (pendingTimer) clearTimeout(pendingTimer)
+          const delay = getTimeUntilNextPendingExpiry(current)
+          if (delay === null) return
+          pendingTimer = setTimeout(async () => {
+            try {
+              await getGameWithDueChanges(roomNumber)
+            } catch (error) {
+              console.error('Error applying expired eliminations:', error)
+            }
+          }, delay + ROTATION_SLACK_MS)
+        }
+        
+        // Publishers send the state they just saved, so no stream has to reload it
+        const unsubscribe = getGameEventBus().subscribe(roomNumber, ({ event, state: latest }) => {
+          if (closed || request.signal.aborted) return
+          try {
+            send(event)
+            // A claim may start the rotation clock and a reset restarts both clocks
+            if (latest) {
+              scheduleRotation(latest)
+              scheduleDeadline(latest)
+              schedulePendingExpiry(latest)
+            }
+          } catch (error) {
+            console.error('Error forwarding game event:', error)
+          }
+        })
+        const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS)
+        
+        cleanup = () => {
+          if (closed) return
+          closed = true
+          unsubscribe()
+          clearInterval(keepAlive)
+          if (rotationTimer) clearTimeout(rotationTimer)
+          if (deadlineTimer) clearTimeout(deadlineTimer)
+          if (pendingTimer) clearTimeout(pendingTimer)
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+        request.signal.addEventListener('abort', cleanup)
+        
+        send({ type: 'connected', at: Date.now() })
+        scheduleRotation(state)
+        scheduleDeadline(state)
+        schedulePendingExpiry(state)
+      },
+      cancel() {
+        cleanup()
+      },
+    })
+    
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    console.error('Error opening event stream:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  clearHostSessionCookie,
+  isHostRequest,
+  isPinLocked,
+  issueHostSession,
+  recordPinFailure,
+  revokeHostSession,
+  setHostSessionCookie,
+  verifyPin,
+} from '@/lib/auth'
+import { getGameStore } from '@/lib/store'
+import { readJsonBody, validateHostSessionBody, validationErrorResponse } from '@/lib/validation'
+
+// Tells the client whether this device already holds a host session
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const state = await getGameStore().getGame(roomNumber)
+    
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    
+    return NextResponse.json({ isHost: isHostRequest(request, state) })
+  } catch (error) {
+    console.error('Error checking host session:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Exchanges the host PIN for an HTTP-only host session cookie
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const validation = validateHostSessionBody(await readJsonBody(request))
+    if (!validation.ok) {
+      return validationErrorResponse(validation.issues)
+    }
+    const { pin } = validation.value
+    const store = getGameStore()
+    
+    const state = await store.getGame(roomNumber)
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    const expectedRevision = state.revision ?? 0
+    
+    // Games without a PIN can only be hosted from the device that created them
+    if (!state.hostPinHash) {
+      return NextResponse.json({ error: 'This game has no host PIN' }, { status: 403 })
+    }
+    
+    if (isPinLocked(state)) {
+      return NextResponse.json({ error: 'Too many attempts, try again later' }, { status: 429 })
+    }
+    
+    const pinValid = verifyPin(pin, state.hostPinHash)
+    const hostSession = pinValid ? issueHostSession(state) : null
+    if (!pinValid) {
+      recordPinFailure(state)
+    }
+    
+    // Save the new session (or the failed attempt), unless someone else wrote in the meantime
+    const saved = await store.compareAndSetGame(roomNumber, expectedRevision, state)
+    if (!saved) {
+      return NextResponse.json({ error: 'Game was updated concurrently, please retry' }, { status: 409 })
+    }
+    
+    if (!hostSession) {
+      return NextResponse.json({ error: 'Incorrect PIN' }, { status: 401 })
+    }
+    
+    const response = NextResponse.json({ success: true })
+    setHostSessionCookie(response, state, hostSession)
+    return response
+  } catch (error) {
+    console.error('Error starting host session:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Ends this device's host session, e.g. before handing a shared kiosk device to the players
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const store = getGameStore()
+    
+    // Revoke the session server-side too, so a copied cookie stops working
+    const state = await store.getGame(roomNumber)
+    if (state) {
+      const expectedRevision = state.revision ?? 0
+      if (revokeHostSession(request, state)) {
+        const saved = await store.compareAndSetGame(roomNumber, expectedRevision, state)
+        if (!saved) {
+          return NextResponse.json({ error: 'Game was updated concurrently, please retry' }, { status: 409 })
+        }
+      }
+    }
+    
+    const response = NextResponse.json({ success: true })
+    clearHostSessionCookie(response, roomNumber)
+    return response
+  } catch (error) {
+    console.error('Error ending host session:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
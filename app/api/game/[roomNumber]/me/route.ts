@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPlayerView } from '@/lib/game'
+import { getRequestPlayer } from '@/lib/auth'
+import { getGameWithDueChanges } from '@/lib/clock'
+
+// Returns only the requesting player's mission plus public game status
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    // A kill reported against this player may have gone through since their last look
+    const state = await getGameWithDueChanges(roomNumber)
+    
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    
+    const playerName = getRequestPlayer(request, state)
+    if (!playerName) {
+      return NextResponse.json({ error: 'Invalid player token' }, { status: 401 })
+    }
+    
+    return NextResponse.json(getPlayerView(state, playerName))
+  } catch (error) {
+    console.error('Error fetching player mission:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
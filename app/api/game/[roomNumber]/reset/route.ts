@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { appendGameLog, generateGameFromConfig, toHostGameState } from '@/lib/game'
+import { isHostRequest } from '@/lib/auth'
+import { publishGameEvent } from '@/lib/events'
+import { getGameStore } from '@/lib/store'
+
+// Restarts the room: same players, fresh claims and eliminations (host only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const store = getGameStore()
+    
+    const state = await store.getGame(roomNumber)
+    const config = await store.getRoomConfig(roomNumber)
+    if (!state || !config) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    
+    if (!isHostRequest(request, state)) {
+      return NextResponse.json({ error: 'Host session required' }, { status: 401 })
+    }
+    const expectedRevision = state.revision ?? 0
+    
+    // Regenerate from the stored config; keep host credentials and the audit trail, drop every player token
+    const createdAt = Date.now()
+    const fresh = generateGameFromConfig({ ...config, createdAt }, roomNumber)
+    fresh.hostPinHash = state.hostPinHash
+    fresh.hostSessionHashes = state.hostSessionHashes
+    fresh.playerTokenHashes = {}
+    fresh.eventLog = state.eventLog
+    appendGameLog(fresh, 'reset', 'host', undefined, createdAt)
+    
+    const saved = await store.compareAndSetGame(roomNumber, expectedRevision, fresh)
+    if (!saved) {
+      return NextResponse.json({ error: 'Game was updated concurrently, please retry' }, { status: 409 })
+    }
+    
+    await publishGameEvent(roomNumber, 'reset', fresh)
+    
+    return NextResponse.json({ success: true, state: toHostGameState(fresh) })
+  } catch (error) {
+    console.error('Error resetting game:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
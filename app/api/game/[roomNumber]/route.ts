@@ -1,37 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import type { GameStateV1 } from '@/lib/game'
-// @ts-ignore - ioredis types will be available after npm install
-import Redis from 'ioredis'
-
-// Redis client - reuse connection
-let redis: Redis | null = null
-
-function getRedis(): Redis | null {
-  if (redis) return redis
-  
-  const redisUrl = process.env.REDIS_URL
-  if (!redisUrl) {
-    console.log('REDIS_URL not set, using in-memory storage')
-    return null
-  }
-  
-  try {
-    redis = new Redis(redisUrl, {
-      maxRetriesPerRequest: 3,
-      retryStrategy: (times: number) => {
-        const delay = Math.min(times * 50, 2000)
-        return delay
-      },
-    })
-    return redis
-  } catch (e) {
-    console.error('Failed to connect to Redis:', e)
-    return null
-  }
-}
-
-// Fallback in-memory storage (only works for single instance, not Vercel production)
-const gameStates = new Map<string, GameStateV1>()
+import { appendGameLog, getPlayerView, recordAllClaimed, toHostGameState, toPublicGameState } from '@/lib/game'
+import { generateToken, hashToken, isHostRequest } from '@/lib/auth'
+import { getGameWithDueChanges } from '@/lib/clock'
+import { publishGameEvent } from '@/lib/events'
+import { getGameStore } from '@/lib/store'
+import { readJsonBody, validatePlayerNameBody, validationErrorResponse } from '@/lib/validation'
 
 export async function GET(
   request: NextRequest,
@@ -39,94 +12,86 @@ export async function GET(
 ) {
   try {
     const roomNumber = params.roomNumber
-    const redisClient = getRedis()
-    
-    // Try Redis first
-    if (redisClient) {
-      const stateJson = await redisClient.get(`game:${roomNumber}`)
-      if (stateJson) {
-        const state = JSON.parse(stateJson) as GameStateV1
-        return NextResponse.json(state)
-      }
-    } else {
-      // Fallback to in-memory
-      const state = gameStates.get(roomNumber)
-      if (state) {
-        return NextResponse.json(state)
-      }
-    }
-    
-    return NextResponse.json({ error: 'Room not found' }, { status: 404 })
-  } catch (error) {
-    console.error('Error fetching game state:', error)
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
-  }
-}
-
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { roomNumber: string } }
-) {
-  try {
-    const roomNumber = params.roomNumber
-    const state: GameStateV1 = await request.json()
-    const redisClient = getRedis()
+    // Kills whose victim never answered go through even if nobody keeps a stream open
+    const state = await getGameWithDueChanges(roomNumber)
     
-    // Validate room number matches
-    if (state.roomNumber !== roomNumber) {
-      return NextResponse.json({ error: 'Room number mismatch' }, { status: 400 })
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
     }
     
-    // Try Redis first
-    if (redisClient) {
-      await redisClient.set(`game:${roomNumber}`, JSON.stringify(state), 'EX', 86400) // Expire after 24 hours
-    } else {
-      // Fallback to in-memory
-      gameStates.set(roomNumber, state)
+    // Only the host sees every mission
+    if (isHostRequest(request, state)) {
+      return NextResponse.json(toHostGameState(state))
     }
     
-    return NextResponse.json({ success: true, state })
+    return NextResponse.json(toPublicGameState(state))
   } catch (error) {
-    console.error('Error saving game state:', error)
+    console.error('Error fetching game state:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
 
+// Games are created through POST /api/game; clients may not overwrite a room's state
+export async function POST() {
+  return NextResponse.json({ error: 'Game state is managed by the server, use POST /api/game to create a game' }, { status: 405 })
+}
+
 export async function PATCH(
   request: NextRequest,
   { params }: { params: { roomNumber: string } }
 ) {
   try {
     const roomNumber = params.roomNumber
-    const { playerName } = await request.json()
-    const redisClient = getRedis()
-    
-    // Try Redis first
-    let state: GameStateV1 | null = null
-    if (redisClient) {
-      const stateJson = await redisClient.get(`game:${roomNumber}`)
-      if (stateJson) {
-        state = JSON.parse(stateJson) as GameStateV1
-      }
-    } else {
-      state = gameStates.get(roomNumber) || null
+    const validation = validatePlayerNameBody(await readJsonBody(request))
+    if (!validation.ok) {
+      return validationErrorResponse(validation.issues)
     }
+    const { playerName } = validation.value
+    const store = getGameStore()
     
+    const state = await store.getGame(roomNumber)
     if (!state) {
       return NextResponse.json({ error: 'Room not found' }, { status: 404 })
     }
     
-    // Mark player as claimed
+    const player = state.players.find((p) => p.nameNormalized === playerName)
+    if (!player) {
+      return NextResponse.json({ error: 'Player not found in game' }, { status: 404 })
+    }
+    
+    // A mission is handed out exactly once
+    if (state.claimedByName[playerName]) {
+      return NextResponse.json({ error: 'Mission already claimed' }, { status: 403 })
+    }
+    
+    // Players the host removed or eliminated before they claimed have had their target handed on
+    if (player.status !== 'unclaimed') {
+      return NextResponse.json({ error: 'Player is no longer in the game' }, { status: 403 })
+    }
+    
+    // Mark player as claimed and issue their secret token
+    const expectedRevision = state.revision ?? 0
+    const playerToken = generateToken()
     state.claimedByName[playerName] = true
+    player.status = 'alive'
+    state.playerTokenHashes = {
+      ...state.playerTokenHashes,
+      [playerName]: hashToken(playerToken),
+    }
+    appendGameLog(state, 'claimed', playerName)
+    
+    // The last claim starts the rotation clock of games anchored to it
+    recordAllClaimed(state)
     
-    // Save back
-    if (redisClient) {
-      await redisClient.set(`game:${roomNumber}`, JSON.stringify(state), 'EX', 86400)
-    } else {
-      gameStates.set(roomNumber, state)
+    // Save back, unless someone else wrote in the meantime
+    const saved = await store.compareAndSetGame(roomNumber, expectedRevision, state)
+    if (!saved) {
+      return NextResponse.json({ error: 'Game was updated concurrently, please retry' }, { status: 409 })
     }
     
-    return NextResponse.json({ success: true, state })
+    await publishGameEvent(roomNumber, 'claimed', state)
+    
+    return NextResponse.json({ success: true, playerToken, view: getPlayerView(state, playerName) })
   } catch (error) {
     console.error('Error updating claim:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -139,16 +104,22 @@ export async function DELETE(
 ) {
   try {
     const roomNumber = params.roomNumber
-    const redisClient = getRedis()
-    
-    // Delete from Redis
-    if (redisClient) {
-      await redisClient.del(`game:${roomNumber}`)
-    } else {
-      // Delete from in-memory
-      gameStates.delete(roomNumber)
+    const store = getGameStore()
+    
+    const state = await store.getGame(roomNumber)
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
     }
     
+    if (!isHostRequest(request, state)) {
+      return NextResponse.json({ error: 'Host session required' }, { status: 401 })
+    }
+    
+    // Remove the room config too, so the room cannot be regenerated
+    await store.deleteGame(roomNumber)
+    await store.deleteRoomConfig(roomNumber)
+    await publishGameEvent(roomNumber, 'deleted')
+    
     return NextResponse.json({ success: true, message: 'Game state deleted' })
   } catch (error) {
     console.error('Error deleting game state:', error)
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getGameStore } from '@/lib/store'
+import { computeGameStats } from '@/lib/stats'
+
+// Kill counts, survival times and other bragging rights; built from public data only
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { roomNumber: string } }
+) {
+  try {
+    const roomNumber = params.roomNumber
+    const state = await getGameStore().getGame(roomNumber)
+    
+    if (!state) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+    
+    return NextResponse.json({ roomNumber, stats: computeGameStats(state) })
+  } catch (error) {
+    console.error('Error fetching game stats:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
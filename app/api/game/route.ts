@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { GameStateLatest, RoomConfig } from '@/lib/game'
+import {
+  DEFAULT_ELIMINATION_CONFIRM_TIMEOUT_MINUTES,
+  appendGameLog,
+  generateGameFromConfig,
+  generateRoomNumber,
+  generateSeed,
+  toHostGameState,
+} from '@/lib/game'
+import { hashPin, issueHostSession, setHostSessionCookie } from '@/lib/auth'
+import { getGameStore } from '@/lib/store'
+import { readJsonBody, validateNewRoomConfig, validationErrorResponse } from '@/lib/validation'
+
+// How many random room numbers to try before giving up
+const MAX_ROOM_NUMBER_ATTEMPTS = 20
+
+export async function POST(request: NextRequest) {
+  try {
+    const validation = validateNewRoomConfig(await readJsonBody(request))
+    if (!validation.ok) {
+      return validationErrorResponse(validation.issues)
+    }
+    const body = validation.value
+    const store = getGameStore()
+    const digits = body.roomNumberDigits ?? 4
+    
+    // The server owns the room number, creation time and seed
+    // The PIN is only kept as a hash on the game state, never in the stored config
+    const createdAt = Date.now()
+    const seed = generateSeed()
+    let reserved: { config: RoomConfig; state: GameStateLatest } | null = null
+    
+    for (let attempt = 0; attempt < MAX_ROOM_NUMBER_ATTEMPTS && !reserved; attempt++) {
+      const roomNumber = generateRoomNumber(digits)
+      const config: RoomConfig = {
+        roomNumber,
+        playerNames: body.playerNames,
+        rooms: body.rooms,
+        objects: body.objects,
+        createdAt,
+        roomRotationIntervalMinutes: body.roomRotationIntervalMinutes ?? 1, // Default: 1 minute
+        eliminationConfirmTimeoutMinutes: body.eliminationConfirmTimeoutMinutes ?? DEFAULT_ELIMINATION_CONFIRM_TIMEOUT_MINUTES,
+        rotationAnchor: body.rotationAnchor,
+        rotateObjects: body.rotateObjects,
+        partyGroup: body.partyGroup,
+        teams: body.teams,
+        contractsPerPlayer: body.contractsPerPlayer,
+        gameDurationMinutes: body.gameDurationMinutes,
+        timeUpMode: body.timeUpMode,
+        // Secret seed: knowing the public room number is not enough to recompute targets
+        seed,
+      }
+      
+      // Generate assignments on the server so clients never choose them
+      let state: GameStateLatest
+      try {
+        state = generateGameFromConfig(config, roomNumber)
+      } catch (e) {
+        return NextResponse.json({ error: e instanceof Error ? e.message : 'Invalid room config' }, { status: 400 })
+      }
+      
+      // Reserve the room number atomically; on collision try another one
+      if (await store.createRoomConfig(roomNumber, config)) {
+        reserved = { config, state }
+      }
+    }
+    
+    if (!reserved) {
+      return NextResponse.json({ error: 'No free room number found, try more digits' }, { status: 503 })
+    }
+    
+    const { config, state } = reserved
+    const roomNumber = config.roomNumber
+    
+    if (body.hostPin) {
+      state.hostPinHash = hashPin(body.hostPin)
+    }
+    state.playerTokenHashes = {}
+    appendGameLog(state, 'created', 'host', undefined, createdAt)
+    
+    // The creating device becomes the host
+    const hostSession = issueHostSession(state)
+    
+    await store.setGame(roomNumber, state)
+    
+    const response = NextResponse.json({ success: true, roomNumber, state: toHostGameState(state) })
+    setHostSessionCookie(response, state, hostSession)
+    return response
+  } catch (error) {
+    console.error('Error creating game:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildProfiles, getHistoryStore } from '@/lib/history'
+import { isValidPartyGroup } from '@/lib/validation'
+
+// Past games of a party group, newest first, with career profiles built from them
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { partyGroup: string } }
+) {
+  try {
+    const partyGroup = decodeURIComponent(params.partyGroup)
+    if (!isValidPartyGroup(partyGroup)) {
+      return NextResponse.json({ error: 'Invalid party group' }, { status: 400 })
+    }
+    
+    const games = await getHistoryStore().listGames(partyGroup)
+    
+    return NextResponse.json({ partyGroup, games, profiles: buildProfiles(games) })
+  } catch (error) {
+    console.error('Error fetching history:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
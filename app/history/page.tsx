@@ -0,0 +1,125 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { loadActiveGame, loadPartyHistoryFromServer, type PartyHistory } from '@/lib/game'
+import { formatDuration } from '@/lib/stats'
+import Navigation from '@/components/Navigation'
+import { useLanguage } from '@/contexts/LanguageContext'
+
+export default function HistoryPage() {
+  const { t } = useLanguage()
+  const [partyGroup, setPartyGroup] = useState('')
+  const [history, setHistory] = useState<PartyHistory | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleLoad = async (group: string) => {
+    if (!group.trim()) return
+    setError('')
+    setLoading(true)
+    try {
+      const result = await loadPartyHistoryFromServer(group)
+      if (result) {
+        setHistory(result)
+      } else {
+        setError(t.history.loadError)
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Start with the group of the game on this device, if it has one
+  useEffect(() => {
+    const group = loadActiveGame()?.partyGroup
+    if (group) {
+      setPartyGroup(group)
+      handleLoad(group)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  return (
+    <div className="min-h-screen p-6 md:p-12 max-w-6xl mx-auto">
+      <Navigation />
+      <div className="bg-white rounded-lg shadow-lg p-8 md:p-12 space-y-8">
+        <h1 className="text-4xl md:text-5xl font-bold">{t.history.title}</h1>
+
+        <div>
+          <label className="block text-xl font-semibold mb-2">{t.history.groupLabel}</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              maxLength={40}
+              value={partyGroup}
+              onChange={(e) => setPartyGroup(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleLoad(partyGroup)}
+              className="flex-1 p-4 border-2 border-gray-300 rounded-lg text-xl"
+            />
+            <button
+              onClick={() => handleLoad(partyGroup)}
+              disabled={loading || !partyGroup.trim()}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-xl font-semibold py-4 px-6 rounded-lg transition-colors"
+            >
+              {loading ? t.history.loading : t.history.load}
+            </button>
+          </div>
+          {error && <p className="mt-2 text-red-700 font-semibold">{error}</p>}
+        </div>
+
+        {history && history.games.length === 0 && (
+          <p className="text-xl text-gray-600">{t.history.noGames}</p>
+        )}
+
+        {history && history.games.length > 0 && (
+          <>
+            <div>
+              <h2 className="text-2xl font-bold mb-4">🏆 {t.history.careers}</h2>
+              <table className="w-full">
+                <thead>
+                  <tr className="text-sm text-gray-600">
+                    <th className="text-left p-2">{t.history.player}</th>
+                    <th className="text-right p-2">{t.history.gamesPlayed}</th>
+                    <th className="text-right p-2">{t.history.wins}</th>
+                    <th className="text-right p-2">{t.history.kills}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.profiles.map((profile, i) => (
+                    <tr key={profile.nameNormalized} className={i % 2 === 0 ? 'bg-gray-100' : ''}>
+                      <td className="p-2 font-semibold">
+                        {i + 1}. {profile.name}
+                      </td>
+                      <td className="p-2 text-right">{profile.gamesPlayed}</td>
+                      <td className="p-2 text-right">{profile.wins}</td>
+                      <td className="p-2 text-right">🗡️ {profile.kills}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <h2 className="text-2xl font-bold mb-4">📜 {t.history.pastGames}</h2>
+              <div className="space-y-2">
+                {history.games.map((game) => (
+                  <div key={game.id} className="bg-gray-100 rounded-lg p-4 flex flex-wrap justify-between gap-2">
+                    <span className="font-semibold">
+                      {new Date(game.endedAt).toLocaleDateString()} · {t.history.room} {game.roomNumber}
+                    </span>
+                    <span>
+                      {t.history.winner}: <span className="font-bold">{game.winnerName ?? t.history.noWinner}</span>
+                    </span>
+                    <span className="text-gray-700">
+                      {game.stats.players.length} {t.history.players} · {formatDuration(game.stats.durationMs)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,12 +5,35 @@ import Link from 'next/link'
 import {
   loadActiveGame,
   loadGameFromServer,
-  resetGame,
   generateGame,
   saveGame,
   flushDatabase,
-  type GameStateV1,
+  clearClaimedPlayer,
+  checkHostSession,
+  endHostSession,
+  startHostSession,
+  resetGameOnServer,
+  subscribeToGameUpdates,
+  loadHostGameFromServer,
+  resolveEliminationOnServer,
+  moderateGameOnServer,
+  toPublicGameState,
+  getAlivePlayers,
+  getVictimsOf,
+  normalizeName,
+  type HostGameState,
+  type ModerationAction,
+  type PendingElimination,
+  type PublicGameState,
+  type RoomNumberDigits,
+  type TeamConfig,
+  type RotationAnchor,
+  type TimeUpMode,
+  DEFAULT_CONTRACTS_PER_PLAYER,
 } from '@/lib/game'
+import GameClock from '@/components/GameClock'
+import GameResults from '@/components/GameResults'
+import GameStats from '@/components/GameStats'
 import Navigation from '@/components/Navigation'
 import { useLanguage } from '@/contexts/LanguageContext'
 
@@ -43,14 +66,29 @@ const DEFAULT_OBJECTS = [
   'pen',
 ]
 
+// Classic: a single target chain; teams: teams hunt teams; most wanted: open contracts on several players
+type GameMode = 'classic' | 'teams' | 'most_wanted'
+
 export default function HostPage() {
   const { t } = useLanguage()
-  const [gameState, setGameState] = useState<GameStateV1 | null>(null)
+  const [gameState, setGameState] = useState<PublicGameState | null>(null)
   const [playerNames, setPlayerNames] = useState<string>('')
   const [rooms, setRooms] = useState<string>(DEFAULT_ROOMS.join('\n'))
   const [objects, setObjects] = useState<string>(DEFAULT_OBJECTS.join('\n'))
   const [hostPin, setHostPin] = useState<string>('')
   const [roomRotationInterval, setRoomRotationInterval] = useState<string>('1')
+  const [rotationAnchor, setRotationAnchor] = useState<RotationAnchor>('all_claimed')
+  const [rotateObjects, setRotateObjects] = useState(false)
+  const [roomNumberDigits, setRoomNumberDigits] = useState<RoomNumberDigits>(4)
+  const [confirmTimeout, setConfirmTimeout] = useState<string>('5')
+  const [partyGroup, setPartyGroup] = useState<string>('')
+  const [gameDuration, setGameDuration] = useState<string>('') // Empty: no time limit
+  const [timeUpMode, setTimeUpMode] = useState<TimeUpMode>('most_kills')
+  const [gameMode, setGameMode] = useState<GameMode>('classic')
+  const [contractsPerPlayer, setContractsPerPlayer] = useState<string>(String(DEFAULT_CONTRACTS_PER_PLAYER))
+  const [teamByPlayer, setTeamByPlayer] = useState<Record<string, string>>({}) // key=nameNormalized
+  const [pendingEliminations, setPendingEliminations] = useState<PendingElimination[]>([])
+  const [newPlayerName, setNewPlayerName] = useState('')
   const [pinVerified, setPinVerified] = useState(false)
   const [pinInput, setPinInput] = useState('')
   const [error, setError] = useState<string>('')
@@ -59,22 +97,25 @@ export default function HostPage() {
   useEffect(() => {
     const state = loadActiveGame()
     setGameState(state)
-    // If there's a PIN, require verification
-    if (state?.hostPin) {
+    // If there's a PIN, require verification unless this device already has a host session
+    if (state?.hasHostPin) {
       setPinVerified(false)
+      checkHostSession(state.roomNumber).then(setPinVerified)
     } else {
       setPinVerified(true) // No PIN means no verification needed
     }
   }, [])
 
-  // Poll server for updates when game is active
+  // Refresh on live server updates when game is active (polling only if the stream fails)
   useEffect(() => {
     if (!gameState?.roomNumber) return
 
-    // Poll server every 2 seconds for updates
-    const pollInterval = setInterval(async () => {
+    const refresh = async () => {
       try {
-        const serverState = await loadGameFromServer(gameState.roomNumber)
+        // The host view also lists pending kills; fall back to the public view without a host session
+        const hostState = await loadHostGameFromServer(gameState.roomNumber)
+        setPendingEliminations(hostState?.pendingEliminations ?? [])
+        const serverState = hostState ? toPublicGameState(hostState) : await loadGameFromServer(gameState.roomNumber)
         if (serverState) {
           // Merge server state (prioritize server's claimed state)
           const mergedState = {
@@ -88,11 +129,11 @@ export default function HostPage() {
           saveGame(mergedState)
         }
       } catch (error) {
-        console.error('Error polling server:', error)
+        console.error('Error refreshing from server:', error)
       }
-    }, 2000) // Poll every 2 seconds
+    }
 
-    return () => clearInterval(pollInterval)
+    return subscribeToGameUpdates(gameState.roomNumber, refresh, 2000) // Poll every 2 seconds as fallback
   }, [gameState?.roomNumber])
 
   const handleGenerate = async () => {
@@ -104,6 +145,19 @@ export default function HostPage() {
       setError('Room rotation interval must be at least 1 minute')
       return
     }
+
+    const confirmTimeoutMinutes = parseInt(confirmTimeout, 10)
+    if (isNaN(confirmTimeoutMinutes) || confirmTimeoutMinutes < 1) {
+      setError(t.host.confirmTimeoutMin)
+      return
+    }
+    
+    // Optional time limit
+    const durationMinutes = gameDuration.trim() ? parseInt(gameDuration, 10) : undefined
+    if (durationMinutes !== undefined && (isNaN(durationMinutes) || durationMinutes < 1)) {
+      setError(t.host.gameDurationMin)
+      return
+    }
     
     const names = playerNames
       .split('\n')
@@ -125,24 +179,118 @@ export default function HostPage() {
       .map((o) => o.trim())
       .filter((o) => o.length > 0)
 
+    // Group players by the team typed next to their name
+    let teams: TeamConfig[] | undefined
+    if (gameMode === 'teams') {
+      const teamsByName = new Map<string, TeamConfig>()
+      for (const name of names) {
+        const teamName = (teamByPlayer[normalizeName(name)] ?? '').trim()
+        if (!teamName) {
+          setError(t.host.everyPlayerNeedsTeam)
+          return
+        }
+        const team = teamsByName.get(normalizeName(teamName)) ?? { name: teamName, members: [] }
+        team.members.push(name)
+        teamsByName.set(normalizeName(teamName), team)
+      }
+      if (teamsByName.size < 2) {
+        setError(t.host.atLeast2Teams)
+        return
+      }
+      teams = Array.from(teamsByName.values())
+    }
+
+    let contracts: number | undefined
+    if (gameMode === 'most_wanted') {
+      contracts = parseInt(contractsPerPlayer, 10)
+      if (isNaN(contracts) || contracts < 1 || contracts > 10) {
+        setError(t.host.contractsRange)
+        return
+      }
+    }
+
     try {
       const pin = hostPin.trim().length === 4 ? hostPin.trim() : undefined
       // generateGame now syncs to server automatically
-      const newState = await generateGame(names, roomsList, objectsList, pin, undefined, rotationInterval)
+      const newState = await generateGame({
+        playerNames: names,
+        rooms: roomsList,
+        objects: objectsList,
+        hostPin: pin,
+        roomRotationIntervalMinutes: rotationInterval,
+        roomNumberDigits,
+        eliminationConfirmTimeoutMinutes: confirmTimeoutMinutes,
+        partyGroup: partyGroup.trim() || undefined,
+        teams,
+        contractsPerPlayer: contracts,
+        gameDurationMinutes: durationMinutes,
+        timeUpMode: durationMinutes ? timeUpMode : undefined,
+        rotationAnchor,
+        rotateObjects,
+      })
       setGameState(newState)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate game')
     }
   }
 
-  const handleReset = () => {
+  const handleResolveElimination = async (pendingId: string, approve: boolean) => {
+    if (!gameState) return
+    applyHostState(await resolveEliminationOnServer(gameState.roomNumber, pendingId, approve))
+  }
+
+  const handleModerate = async (action: ModerationAction, playerNameNormalized?: string) => {
+    if (!gameState) return
+    if (action === 'remove' && !confirm(t.host.removeConfirm)) return
+    applyHostState(await moderateGameOnServer(gameState.roomNumber, action, playerNameNormalized))
+  }
+
+  const handleAddPlayer = async () => {
+    if (!gameState || !newPlayerName.trim()) return
+    const hostState = await moderateGameOnServer(gameState.roomNumber, 'add', newPlayerName.trim())
+    applyHostState(hostState)
+    if (hostState) setNewPlayerName('')
+  }
+
+  // Show the result of a host action, keeping only the public part on this device
+  const applyHostState = (hostState: HostGameState | null) => {
+    if (!hostState) {
+      setError(t.host.moderationError)
+      return
+    }
+    setError('')
+    setPendingEliminations(hostState.pendingEliminations)
+    const publicState = toPublicGameState(hostState)
+    setGameState(publicState)
+    saveGame(publicState)
+  }
+
+  const handleReset = async () => {
+    if (!gameState) return
     if (confirm(t.host.resetConfirm)) {
-      resetGame()
-      setGameState(null)
+      // Restart the room on the server (requires the host session)
+      const freshState = await resetGameOnServer(gameState.roomNumber)
+      if (!freshState) {
+        setError(t.host.resetError)
+        return
+      }
+      clearClaimedPlayer()
+      saveGame(freshState)
+      setGameState(freshState)
       setError('')
     }
   }
 
+  // Before handing this device to the players: it must not keep host rights
+  const handleEndHostSession = async () => {
+    if (!gameState || !confirm(gameState.hasHostPin ? t.host.endHostSessionConfirm : t.host.endHostSessionNoPinConfirm)) return
+    if (await endHostSession(gameState.roomNumber)) {
+      window.location.href = '/kiosk'
+    } else {
+      setError(t.host.endHostSessionError)
+    }
+  }
+
   const handleFlushDatabase = async () => {
     if (confirm(t.instructions.flushConfirm)) {
       // Clear local storage
@@ -151,8 +299,8 @@ export default function HostPage() {
       // Clear server state if game exists
       if (gameState?.roomNumber) {
         try {
+          // Deletes the room config too (requires the host session cookie)
           await fetch(`/api/game/${gameState.roomNumber}`, { method: 'DELETE' })
-          await fetch(`/api/room/${gameState.roomNumber}`, { method: 'DELETE' })
         } catch (err) {
           console.error('Error clearing server state:', err)
         }
@@ -175,8 +323,9 @@ export default function HostPage() {
     }
   }
 
-  const handlePinCheck = () => {
-    if (gameState?.hostPin && pinInput === gameState.hostPin) {
+  const handlePinCheck = async () => {
+    // The server checks the PIN and sets an HTTP-only host session cookie
+    if (gameState && await startHostSession(gameState.roomNumber, pinInput)) {
       setPinVerified(true)
       setPinInput('')
       setError('')
@@ -190,9 +339,13 @@ export default function HostPage() {
     ? Object.values(gameState.claimedByName).filter(Boolean).length
     : 0
   const totalPlayers = gameState?.players.length || 0
+  const aliveCount = gameState ? getAlivePlayers(gameState).length : 0
+  const disputedEliminations = pendingEliminations.filter((p) => p.status === 'disputed')
+  const playerName = (nameNormalized: string) =>
+    gameState?.players.find((p) => p.nameNormalized === nameNormalized)?.name ?? nameNormalized
 
   // If there's a PIN and we haven't verified it, show PIN input
-  if (gameState?.hostPin && !pinVerified) {
+  if (gameState?.hasHostPin && !pinVerified) {
     return (
       <div className="min-h-screen flex items-center justify-center p-6">
         <div className="bg-white rounded-lg shadow-lg p-8 max-w-md w-full">
@@ -236,8 +389,14 @@ export default function HostPage() {
 
         {gameState ? (
           <div className="space-y-6">
+            {gameState.endedAt && <GameResults state={gameState} />}
+            <GameClock state={gameState} />
+
             <div className="bg-green-50 border-2 border-green-300 rounded-lg p-6">
               <h2 className="text-2xl font-bold mb-4">{t.host.gameStatus}</h2>
+              {error && (
+                <p className="mb-4 text-red-700 font-semibold">{error}</p>
+              )}
               <div className="bg-blue-100 border-2 border-blue-500 rounded-lg p-4 mb-4">
                 <p className="text-sm font-semibold text-blue-900 mb-1">{t.host.roomNumber}</p>
                 <p className="text-4xl font-bold text-blue-900 font-mono text-center">
@@ -264,44 +423,160 @@ export default function HostPage() {
               <p className="text-xl mb-2">
                 {t.host.gameId}: <span className="font-mono text-sm">{gameState.gameId}</span>
               </p>
-              <p className="text-xl mb-4">
+              <p className="text-xl mb-2">
                 {t.host.claimed}: <span className="font-bold">{claimedCount} / {totalPlayers}</span>
               </p>
+              <p className="text-xl mb-4">
+                {t.host.alive}: <span className="font-bold">{aliveCount} / {totalPlayers}</span>
+              </p>
               
+              {disputedEliminations.length > 0 && (
+                <div className="mt-4 bg-yellow-50 border-2 border-yellow-500 rounded-lg p-4">
+                  <h3 className="text-lg font-semibold mb-2">⚖️ {t.host.disputedEliminations}:</h3>
+                  <div className="space-y-2">
+                    {disputedEliminations.map((pending) => (
+                      <div key={pending.id} className="flex items-center justify-between gap-2">
+                        <span className="font-semibold">
+                          {playerName(pending.killer)} → {playerName(pending.victim)}
+                        </span>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleResolveElimination(pending.id, true)}
+                            className="bg-red-600 hover:bg-red-700 text-white font-semibold py-1 px-3 rounded-lg transition-colors"
+                          >
+                            {t.host.approveElimination}
+                          </button>
+                          <button
+                            onClick={() => handleResolveElimination(pending.id, false)}
+                            className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-1 px-3 rounded-lg transition-colors"
+                          >
+                            {t.host.rejectElimination}
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="mt-4">
                 <h3 className="text-lg font-semibold mb-2">{t.host.players}:</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
                   {gameState.players.map((player) => {
-                    const claimed = gameState.claimedByName[player.nameNormalized]
-                    // Check if player is eliminated (appears as a value in eliminations)
-                    const isEliminated = gameState.eliminations && Object.values(gameState.eliminations).includes(player.nameNormalized)
+                    const claimed = player.status === 'alive'
+                    const isEliminated = player.status === 'eliminated'
+                    const hasLeft = player.status === 'left'
+                    const victims = getVictimsOf(gameState, player.nameNormalized)
                     return (
                       <div
                         key={player.nameNormalized}
                         className={`p-3 rounded-lg ${
                           isEliminated 
                             ? 'bg-red-200 border-2 border-red-500' 
-                            : claimed 
-                              ? 'bg-green-200' 
-                              : 'bg-gray-100'
+                            : hasLeft
+                              ? 'bg-gray-300 opacity-60'
+                              : claimed 
+                                ? 'bg-green-200' 
+                                : 'bg-gray-100'
                         }`}
                       >
-                        <span className={`font-semibold ${isEliminated ? 'text-red-900 line-through' : ''}`}>
+                        <span className={`font-semibold ${isEliminated || hasLeft ? 'text-red-900 line-through' : ''}`}>
                           {player.name}
                         </span>
+                        {player.team && (
+                          <span className="ml-2 text-sm text-gray-700">
+                            ({gameState.teams?.find((team) => team.nameNormalized === player.team)?.name})
+                          </span>
+                        )}
                         {isEliminated && (
                           <span className="ml-2 text-red-700 font-bold">💀 {t.host.eliminatedBadge}</span>
                         )}
+                        {hasLeft && (
+                          <span className="ml-2 text-gray-700 font-bold">🚪 {t.host.leftBadge}</span>
+                        )}
                         {!isEliminated && claimed && (
                           <span className="ml-2 text-green-700 font-bold">{t.host.claimedBadge}</span>
                         )}
+                        {victims.length > 0 && (
+                          <p className="text-sm text-gray-700 mt-1">
+                            🗡️ {t.host.killsLabel}: {victims
+                              .map((victim) => gameState.players.find((p) => p.nameNormalized === victim)?.name ?? victim)
+                              .join(', ')}
+                          </p>
+                        )}
+                        <div className="flex gap-2 mt-2">
+                          {isEliminated ? (
+                            <button
+                              onClick={() => handleModerate('revive', player.nameNormalized)}
+                              className="text-sm bg-green-600 hover:bg-green-700 text-white font-semibold py-1 px-2 rounded transition-colors"
+                            >
+                              {t.host.revivePlayer}
+                            </button>
+                          ) : !hasLeft && (
+                            <>
+                              <button
+                                onClick={() => handleModerate('eliminate', player.nameNormalized)}
+                                className="text-sm bg-red-600 hover:bg-red-700 text-white font-semibold py-1 px-2 rounded transition-colors"
+                              >
+                                {t.host.eliminatePlayer}
+                              </button>
+                              <button
+                                onClick={() => handleModerate('remove', player.nameNormalized)}
+                                className="text-sm bg-gray-600 hover:bg-gray-700 text-white font-semibold py-1 px-2 rounded transition-colors"
+                              >
+                                {t.host.removePlayer}
+                              </button>
+                            </>
+                          )}
+                        </div>
                       </div>
                     )
                   })}
                 </div>
+                {gameState.eliminations.length > 0 && (
+                  <button
+                    onClick={() => handleModerate('undo')}
+                    className="w-full mt-3 bg-yellow-600 hover:bg-yellow-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+                  >
+                    ↩️ {t.host.undoLastElimination}
+                  </button>
+                )}
+                {!gameState.endedAt && (
+                  <button
+                    onClick={() => handleModerate(gameState.clockPausedAt ? 'resume' : 'pause')}
+                    className="w-full mt-3 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+                  >
+                    {gameState.clockPausedAt ? `▶️ ${t.host.resumeClock}` : `⏸️ ${t.host.pauseClock}`}
+                  </button>
+                )}
+                <div className="flex gap-2 mt-3">
+                  <input
+                    type="text"
+                    value={newPlayerName}
+                    onChange={(e) => setNewPlayerName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddPlayer()}
+                    placeholder={t.host.addPlayerPlaceholder}
+                    maxLength={40}
+                    className="flex-1 p-2 border-2 border-gray-300 rounded-lg"
+                  />
+                  <button
+                    onClick={handleAddPlayer}
+                    disabled={!newPlayerName.trim()}
+                    className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+                  >
+                    ➕ {t.host.addPlayer}
+                  </button>
+                </div>
               </div>
             </div>
 
+            {!gameState.endedAt && (gameState.eliminations.length > 0 || gameState.teams) && (
+              <div className="bg-gray-50 border-2 border-gray-300 rounded-lg p-6">
+                <h2 className="text-2xl font-bold mb-4">📊 {t.stats.title}</h2>
+                <GameStats state={gameState} />
+              </div>
+            )}
+
             <div className="flex flex-col md:flex-row gap-4">
               <Link
                 href="/kiosk"
@@ -327,6 +602,12 @@ export default function HostPage() {
               >
                 {t.instructions.flushDatabase}
               </button>
+              <button
+                onClick={handleEndHostSession}
+                className="flex-1 bg-gray-800 hover:bg-gray-900 text-white text-center text-xl font-semibold py-6 px-8 rounded-lg transition-colors"
+              >
+                🔒 {t.host.endHostSession}
+              </button>
             </div>
           </div>
         ) : (
@@ -343,6 +624,64 @@ export default function HostPage() {
               />
             </div>
 
+            <div>
+              <label className="block text-xl font-semibold mb-2">
+                {t.host.gameModeLabel}
+              </label>
+              <select
+                value={gameMode}
+                onChange={(e) => setGameMode(e.target.value as GameMode)}
+                className="w-full p-4 border-2 border-gray-300 rounded-lg text-xl text-center"
+              >
+                <option value="classic">{t.host.gameModeClassic}</option>
+                <option value="teams">{t.host.gameModeTeams}</option>
+                <option value="most_wanted">{t.host.gameModeMostWanted}</option>
+              </select>
+              <p className="text-sm text-gray-600 mt-1">
+                {gameMode === 'teams'
+                  ? t.host.teamModeDescription
+                  : gameMode === 'most_wanted'
+                    ? t.host.mostWantedDescription
+                    : t.host.classicModeDescription}
+              </p>
+              {gameMode === 'most_wanted' && (
+                <div className="mt-3">
+                  <label className="block text-lg font-semibold mb-2">
+                    {t.host.contractsLabel}
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="10"
+                    value={contractsPerPlayer}
+                    onChange={(e) => setContractsPerPlayer(e.target.value)}
+                    className="w-full p-4 border-2 border-gray-300 rounded-lg text-xl text-center"
+                  />
+                </div>
+              )}
+              {gameMode === 'teams' && (
+                <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {playerNames
+                    .split('\n')
+                    .map((n) => n.trim())
+                    .filter((n) => n.length > 0)
+                    .map((name) => (
+                      <div key={name} className="flex items-center gap-2">
+                        <span className="flex-1 font-semibold">{name}</span>
+                        <input
+                          type="text"
+                          maxLength={40}
+                          value={teamByPlayer[normalizeName(name)] ?? ''}
+                          onChange={(e) => setTeamByPlayer({ ...teamByPlayer, [normalizeName(name)]: e.target.value })}
+                          placeholder={t.host.teamPlaceholder}
+                          className="flex-1 p-2 border-2 border-gray-300 rounded-lg"
+                        />
+                      </div>
+                    ))}
+                </div>
+              )}
+            </div>
+
             <div>
               <label className="block text-xl font-semibold mb-2">
                 {t.host.roomsLabel}
@@ -380,6 +719,99 @@ export default function HostPage() {
                 placeholder="1"
               />
               <p className="text-sm text-gray-600 mt-1">{t.host.roomRotationIntervalDescription}</p>
+              <select
+                value={rotationAnchor}
+                onChange={(e) => setRotationAnchor(e.target.value as RotationAnchor)}
+                className="w-full mt-3 p-4 border-2 border-gray-300 rounded-lg text-xl text-center"
+              >
+                <option value="all_claimed">{t.host.rotationAnchorAllClaimed}</option>
+                <option value="created">{t.host.rotationAnchorCreated}</option>
+              </select>
+              <label className="flex items-center gap-3 mt-3 text-lg font-semibold">
+                <input
+                  type="checkbox"
+                  checked={rotateObjects}
+                  onChange={(e) => setRotateObjects(e.target.checked)}
+                  className="w-6 h-6"
+                />
+                {t.host.rotateObjectsLabel}
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-xl font-semibold mb-2">
+                {t.host.confirmTimeoutLabel}
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="60"
+                value={confirmTimeout}
+                onChange={(e) => setConfirmTimeout(e.target.value)}
+                className="w-full p-4 border-2 border-gray-300 rounded-lg text-xl text-center"
+                placeholder="5"
+              />
+              <p className="text-sm text-gray-600 mt-1">{t.host.confirmTimeoutDescription}</p>
+            </div>
+
+            <div>
+              <label className="block text-xl font-semibold mb-2">
+                {t.host.partyGroupLabel}
+              </label>
+              <input
+                type="text"
+                maxLength={40}
+                value={partyGroup}
+                onChange={(e) => setPartyGroup(e.target.value)}
+                className="w-full p-4 border-2 border-gray-300 rounded-lg text-xl"
+              />
+              <p className="text-sm text-gray-600 mt-1">{t.host.partyGroupDescription}</p>
+            </div>
+
+            <div>
+              <label className="block text-xl font-semibold mb-2">
+                {t.host.gameDurationLabel}
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="1440"
+                value={gameDuration}
+                onChange={(e) => setGameDuration(e.target.value)}
+                className="w-full p-4 border-2 border-gray-300 rounded-lg text-xl text-center"
+              />
+              <p className="text-sm text-gray-600 mt-1">{t.host.gameDurationDescription}</p>
+              {gameDuration.trim() && (
+                <div className="mt-3">
+                  <label className="block text-lg font-semibold mb-2">
+                    {t.host.timeUpModeLabel}
+                  </label>
+                  <select
+                    value={timeUpMode}
+                    onChange={(e) => setTimeUpMode(e.target.value as TimeUpMode)}
+                    className="w-full p-4 border-2 border-gray-300 rounded-lg text-xl text-center"
+                  >
+                    <option value="most_kills">{t.host.timeUpMostKills}</option>
+                    <option value="sudden_death">{t.host.timeUpSuddenDeath}</option>
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-xl font-semibold mb-2">
+                {t.host.roomNumberDigitsLabel}
+              </label>
+              <select
+                value={roomNumberDigits}
+                onChange={(e) => setRoomNumberDigits(Number(e.target.value) as RoomNumberDigits)}
+                className="w-full p-4 border-2 border-gray-300 rounded-lg text-xl text-center"
+              >
+                <option value={4}>4</option>
+                <option value={5}>5</option>
+                <option value={6}>6</option>
+              </select>
+              <p className="text-sm text-gray-600 mt-1">{t.host.roomNumberDigitsDescription}</p>
             </div>
 
             <div>
@@ -5,17 +5,20 @@ import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import {
   loadActiveGame,
-  loadGameByRoom,
   loadGameFromServer,
+  loadMyMissionFromServer,
   markClaimed,
   saveGame,
-  syncGameToServer,
-  getCurrentAssignment,
+  startHostSession,
+  checkHostSession,
+  endHostSession,
+  subscribeToGameUpdates,
   getTimeUntilNextRoomChange,
-  type GameStateV1,
-  type Assignment,
+  type PublicGameState,
   type CurrentAssignment,
 } from '@/lib/game'
+import GameClock from '@/components/GameClock'
+import GameResults from '@/components/GameResults'
 import Navigation from '@/components/Navigation'
 import RoomEntry from '@/components/RoomEntry'
 import { useLanguage } from '@/contexts/LanguageContext'
@@ -25,7 +28,7 @@ const INACTIVITY_TIMEOUT = 45000 // 45 seconds
 export default function KioskPage() {
   const { t } = useLanguage()
   const router = useRouter()
-  const [gameState, setGameState] = useState<GameStateV1 | null>(null)
+  const [gameState, setGameState] = useState<PublicGameState | null>(null)
   const [selectedName, setSelectedName] = useState<string>('')
   const [mission, setMission] = useState<CurrentAssignment | null>(null)
   const [timeUntilRoomChange, setTimeUntilRoomChange] = useState<number | null>(null)
@@ -34,6 +37,7 @@ export default function KioskPage() {
   const [showRoomEntry, setShowRoomEntry] = useState(false)
   const [hostPinInput, setHostPinInput] = useState('')
   const [hostPinError, setHostPinError] = useState('')
+  const [isHostDevice, setIsHostDevice] = useState(false)
   const inactivityTimerRef = useRef<NodeJS.Timeout | null>(null)
 
   useEffect(() => {
@@ -42,15 +46,23 @@ export default function KioskPage() {
       setShowRoomEntry(true)
     } else {
       setGameState(state)
+      // The device that created the game keeps host rights until the host session ends
+      checkHostSession(state.roomNumber).then(setIsHostDevice)
     }
   }, [])
 
-  // Poll server for updates and update mission room if visible
+  const handleEndHostSession = async () => {
+    if (!gameState || !confirm(t.kiosk.endHostSessionConfirm)) return
+    if (await endHostSession(gameState.roomNumber)) {
+      setIsHostDevice(false)
+    }
+  }
+
+  // Refresh on live server updates (polling only if the stream fails) and update mission room if visible
   useEffect(() => {
     if (!gameState?.roomNumber) return
 
-    // Poll server every 2 seconds for updates
-    const pollInterval = setInterval(async () => {
+    const refresh = async () => {
       try {
         const serverState = await loadGameFromServer(gameState.roomNumber)
         if (serverState) {
@@ -67,43 +79,39 @@ export default function KioskPage() {
           
           // Update mission room if mission is currently visible
           if (mission && selectedName) {
-            const currentAssignment = getCurrentAssignment(mergedState, selectedName)
-            if (currentAssignment) {
-              setMission(currentAssignment)
+            const view = await loadMyMissionFromServer(gameState.roomNumber)
+            if (view?.assignment) {
+              setMission(view.assignment)
             }
           }
-          
-          // Update time until next room change
-          if (selectedName) {
-            const timeUntil = getTimeUntilNextRoomChange(mergedState)
-            setTimeUntilRoomChange(timeUntil)
-          }
         }
       } catch (error) {
-        console.error('Error polling server:', error)
+        console.error('Error refreshing from server:', error)
       }
-    }, 1000) // Poll every second for smoother timer updates
+    }
 
-    return () => clearInterval(pollInterval)
+    return subscribeToGameUpdates(gameState.roomNumber, refresh)
   }, [gameState?.roomNumber, mission, selectedName])
 
-  const handleHideMission = useCallback(async () => {
-    if (!gameState || !selectedName) return
+  // Tick the room change countdown locally, no server round trip needed
+  useEffect(() => {
+    if (!selectedName) return
 
-    const player = gameState.players.find(
-      (p) => p.nameNormalized === selectedName
-    )
-    if (!player) return
+    const timer = setInterval(() => {
+      const state = loadActiveGame()
+      setTimeUntilRoomChange(state ? getTimeUntilNextRoomChange(state) : null)
+    }, 1000)
 
-    // Mark as claimed (now syncs to server)
-    const updatedState = await markClaimed(player.nameNormalized)
-    if (updatedState) {
-      setGameState(updatedState)
-    }
+    return () => clearInterval(timer)
+  }, [selectedName])
+
+  const handleHideMission = useCallback(() => {
+    // Clear the mission from memory before leaving
+    setMission(null)
 
     // Redirect to instructions page
     router.push('/')
-  }, [gameState, selectedName, router])
+  }, [router])
 
   useEffect(() => {
     // Clear any existing timer
@@ -140,7 +148,7 @@ export default function KioskPage() {
     }
   }, [mission])
 
-  const handleRevealMission = () => {
+  const handleRevealMission = async () => {
     if (!gameState || !selectedName) return
 
     const player = gameState.players.find(
@@ -148,16 +156,26 @@ export default function KioskPage() {
     )
     if (!player) return
 
-    // Get current assignment with rotating room
-    const currentAssignment = getCurrentAssignment(gameState, player.nameNormalized)
-    if (currentAssignment) {
-      setMission(currentAssignment)
+    // Claiming on the server is what hands out the mission (only once)
+    const view = await markClaimed(player.nameNormalized)
+    if (view?.assignment) {
+      setGameState(view.game)
+      setMission(view.assignment)
       setShowPrivacyShield(false)
+    } else {
+      // Someone else claimed this name first, refresh the list
+      const serverState = await loadGameFromServer(gameState.roomNumber)
+      if (serverState) {
+        setGameState(serverState)
+        saveGame(serverState)
+      }
+      setSelectedName('')
     }
   }
 
-  const handleHostPinCheck = () => {
-    if (gameState?.hostPin && hostPinInput === gameState.hostPin) {
+  const handleHostPinCheck = async () => {
+    // The server checks the PIN and sets an HTTP-only host session cookie
+    if (gameState && await startHostSession(gameState.roomNumber, hostPinInput)) {
       window.location.href = '/host'
     } else {
       setHostPinError(t.kiosk.incorrectPin)
@@ -224,6 +242,24 @@ export default function KioskPage() {
     )
   }
 
+  // Results screen once the game is over
+  if (gameState.endedAt && !showHostLink) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-700 to-gray-900 flex flex-col items-center justify-center p-6">
+        <Navigation />
+        <GameResults state={gameState} />
+
+        {/* Return to host link (small, bottom corner) */}
+        <button
+          onClick={() => setShowHostLink(true)}
+          className="absolute bottom-4 left-4 text-white/50 hover:text-white text-sm underline"
+        >
+          {t.kiosk.returnToHost}
+        </button>
+      </div>
+    )
+  }
+
   // Mission reveal screen
   if (mission) {
     return (
@@ -235,10 +271,11 @@ export default function KioskPage() {
             </p>
           </div>
 
+          <GameClock state={gameState} />
           {timeUntilRoomChange !== null && timeUntilRoomChange > 0 && (
             <div className="bg-yellow-300 border-2 border-yellow-600 rounded-lg p-4 mb-4">
               <p className="text-xl md:text-2xl font-bold text-yellow-900">
-                {t.instructions.roomChangeIn} {Math.ceil(timeUntilRoomChange / 1000)} {t.instructions.seconds}
+                {gameState.rotateObjects ? t.instructions.roomAndObjectChangeIn : t.instructions.roomChangeIn} {Math.ceil(timeUntilRoomChange / 1000)} {t.instructions.seconds}
               </p>
             </div>
           )}
@@ -247,6 +284,11 @@ export default function KioskPage() {
             <div>
               <p className="text-2xl md:text-3xl text-red-200 mb-2">{t.kiosk.yourTarget}</p>
               <p className="text-5xl md:text-7xl font-bold">{mission.targetName}</p>
+              {mission.targetMembers && (
+                <p className="text-2xl md:text-3xl mt-2">
+                  {mission.targetMembers.map((member) => member.name).join(', ')}
+                </p>
+              )}
             </div>
 
             <div>
@@ -332,18 +374,15 @@ export default function KioskPage() {
   }
 
   // Name selection screen
-  const availablePlayers = gameState.players.filter(
-    (p) => !gameState.claimedByName[p.nameNormalized]
-  )
-  const claimedPlayers = gameState.players.filter(
-    (p) => gameState.claimedByName[p.nameNormalized]
-  )
+  const availablePlayers = gameState.players.filter((p) => p.status === 'unclaimed')
+  const claimedPlayers = gameState.players.filter((p) => p.status !== 'unclaimed')
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-600 to-blue-800 text-white flex flex-col items-center justify-center p-6">
       <Navigation />
       <div className="bg-blue-900/50 rounded-lg p-8 md:p-12 max-w-2xl w-full text-center space-y-8">
         <h1 className="text-4xl md:text-6xl font-bold mb-8">{t.kiosk.chooseName}</h1>
+        <GameClock state={gameState} />
 
         {availablePlayers.length === 0 ? (
           <div className="space-y-4">
@@ -404,6 +443,14 @@ export default function KioskPage() {
               {t.kiosk.returnToHost}
             </button>
           </div>
+          {isHostDevice && (
+            <button
+              onClick={handleEndHostSession}
+              className="w-full bg-red-700 hover:bg-red-800 text-white text-xl font-semibold py-4 px-6 rounded-lg transition-colors"
+            >
+              🔒 {t.kiosk.endHostSession}
+            </button>
+          )}
         </div>
       </div>
     </div>
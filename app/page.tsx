@@ -3,7 +3,9 @@
 import { useState, useEffect, Suspense } from 'react'
 import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { loadActiveGame, getClaimedPlayerName, type Assignment, type CurrentAssignment, loadGameFromServer, loadRoomConfigFromServer, generateGameFromConfig, saveGame, syncGameToServer, loadGameByRoom, eliminateTarget, normalizeName, getCurrentAssignment, getTimeUntilNextRoomChange, markPlayerAsDead, flushDatabase } from '@/lib/game'
+import { loadActiveGame, getClaimedPlayerName, type CurrentAssignment, type PendingKillView, type PlayerView, type PublicGameState, loadGameFromServer, loadMyMissionFromServer, saveGame, eliminateTarget, answerPendingElimination, normalizeName, getTimeUntilNextRoomChange, markPlayerAsDead, flushDatabase, subscribeToGameUpdates } from '@/lib/game'
+import GameClock from '@/components/GameClock'
+import GameResults from '@/components/GameResults'
 import Navigation from '@/components/Navigation'
 import RoomEntry from '@/components/RoomEntry'
 import { useLanguage } from '@/contexts/LanguageContext'
@@ -21,50 +23,73 @@ function HomePageContent() {
   const [eliminating, setEliminating] = useState(false)
   const [eliminationMessage, setEliminationMessage] = useState<string | null>(null)
   const [timeUntilRoomChange, setTimeUntilRoomChange] = useState<number | null>(null)
+  const [pendingReport, setPendingReport] = useState<PendingKillView | null>(null)
+  const [pendingAgainstMe, setPendingAgainstMe] = useState<PendingKillView | null>(null)
+  const [answering, setAnswering] = useState(false)
+  const [activeGame, setActiveGame] = useState<PublicGameState | null>(null)
+  const [endedGame, setEndedGame] = useState<PublicGameState | null>(null)
+  const [choosingVictim, setChoosingVictim] = useState(false)
+
+  // Keep the local copy fresh and switch to the results once the game is over
+  const applyGame = (game: PublicGameState) => {
+    saveGame(game)
+    setActiveGame(game)
+    setEndedGame(game.endedAt ? game : null)
+  }
+
+  const applyView = (view: PlayerView) => {
+    applyGame(view.game)
+    setMyMission(view.assignment)
+    setPendingReport(view.pendingReport)
+    setPendingAgainstMe(view.pendingAgainstMe)
+  }
 
   useEffect(() => {
     setMounted(true)
     const game = loadActiveGame()
     setHasActiveGame(game !== null)
     
-    // Check if there's a claimed player and load their mission
-    if (game) {
-      const claimedPlayerName = getClaimedPlayerName()
-      if (claimedPlayerName) {
-        const currentAssignment = getCurrentAssignment(game, claimedPlayerName)
-        if (currentAssignment) {
-          setMyMission(currentAssignment)
+    // Load the mission of the player claimed on this device (only the server knows it)
+    const refreshMission = async () => {
+      const currentGame = loadActiveGame()
+      if (!currentGame) return
+
+      if (getClaimedPlayerName()) {
+        const view = await loadMyMissionFromServer(currentGame.roomNumber)
+        if (view) {
+          applyView(view)
+          setHasActiveGame(true)
+
+          // Update time until next room change
+          const timeUntil = getTimeUntilNextRoomChange(view.game)
+          setTimeUntilRoomChange(timeUntil)
+        }
+      } else {
+        const serverState = await loadGameFromServer(currentGame.roomNumber)
+        if (serverState) {
+          applyGame(serverState)
         }
-        
-        // Initialize time until next room change
-        const timeUntil = getTimeUntilNextRoomChange(game)
-        setTimeUntilRoomChange(timeUntil)
       }
     }
 
-    // Poll for game state updates to reflect eliminations and room rotations
-    const pollInterval = setInterval(async () => {
+    // Live updates reflect eliminations and room rotations (polling only if the stream fails)
+    let unsubscribe = () => {}
+    if (game) {
+      setActiveGame(game)
+      setEndedGame(game.endedAt ? game : null)
+      // Initialize time until next room change
+      setTimeUntilRoomChange(getTimeUntilNextRoomChange(game))
+      refreshMission()
+      unsubscribe = subscribeToGameUpdates(game.roomNumber, refreshMission)
+    }
+
+    // Tick the room change countdown locally, no server round trip needed
+    const countdownInterval = setInterval(() => {
       const currentGame = loadActiveGame()
-      if (currentGame) {
-        const serverState = await loadGameFromServer(currentGame.roomNumber)
-        if (serverState) {
-          saveGame(serverState)
-          const claimedPlayerName = getClaimedPlayerName()
-          if (claimedPlayerName) {
-            // Get current assignment with rotating room
-            const currentAssignment = getCurrentAssignment(serverState, claimedPlayerName)
-            if (currentAssignment) {
-              setMyMission(currentAssignment)
-              setHasActiveGame(true)
-            }
-            
-            // Update time until next room change
-            const timeUntil = getTimeUntilNextRoomChange(serverState)
-            setTimeUntilRoomChange(timeUntil)
-          }
-        }
+      if (currentGame && getClaimedPlayerName()) {
+        setTimeUntilRoomChange(getTimeUntilNextRoomChange(currentGame))
       }
-    }, 1000) // Poll every second for smoother timer updates
+    }, 1000)
 
     // Check for room parameter in URL and auto-join
     if (typeof window !== 'undefined' && !game && !joiningRoom) {
@@ -74,35 +99,37 @@ function HomePageContent() {
       }
     }
 
-    return () => clearInterval(pollInterval)
+    return () => {
+      unsubscribe()
+      clearInterval(countdownInterval)
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchParams])
 
+  // Once the victim's time to answer runs out, report again so the server applies the kill
+  useEffect(() => {
+    if (!pendingReport?.expiresAt) return
+
+    const claimedPlayerName = getClaimedPlayerName()
+    if (!claimedPlayerName) return
+
+    const victim = pendingReport.victim
+    const timeout = setTimeout(async () => {
+      const view = await eliminateTarget(claimedPlayerName, victim)
+      if (view) {
+        applyView(view)
+      }
+    }, Math.max(pendingReport.expiresAt - Date.now(), 0) + 500)
+
+    return () => clearTimeout(timeout)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingReport?.id, pendingReport?.expiresAt])
+
   const handleAutoJoinRoom = async (roomNumber: string) => {
     setJoiningRoom(true)
     try {
-      // Try to load game state from server first
-      let gameState = await loadGameFromServer(roomNumber)
-      
-      // If game state not found, try to load room config and regenerate
-      if (!gameState) {
-        const roomConfig = await loadRoomConfigFromServer(roomNumber)
-        
-        if (roomConfig) {
-          // Regenerate game state deterministically from room config
-          gameState = generateGameFromConfig(roomConfig, roomNumber)
-          
-          // Sync regenerated game state to server
-          await syncGameToServer(gameState)
-        } else {
-          // Try local generation as fallback
-          gameState = loadGameByRoom(roomNumber)
-          if (gameState) {
-            // Sync local game to server
-            await syncGameToServer(gameState)
-          }
-        }
-      }
+      // The server is the only source of game state
+      const gameState = await loadGameFromServer(roomNumber)
       
       if (gameState) {
         // Save as active game
@@ -122,25 +149,36 @@ function HomePageContent() {
     }
   }
 
-  const handleEliminateTarget = async () => {
+  // In team and Most Wanted games there are several possible victims, so the killer picks who they got
+  const victimChoices = myMission?.targetMembers ?? myMission?.contracts
+
+  const handleEliminateClick = () => {
+    if (!myMission) return
+    if (victimChoices) {
+      setChoosingVictim(true)
+    } else {
+      handleEliminateTarget(normalizeName(myMission.targetName))
+    }
+  }
+
+  const handleEliminateTarget = async (targetNameNormalized: string) => {
     const game = loadActiveGame()
     if (!game || !myMission) return
 
     const claimedPlayerName = getClaimedPlayerName()
     if (!claimedPlayerName) return
 
+    setChoosingVictim(false)
     setEliminating(true)
     setEliminationMessage(null)
 
     try {
-      const targetNameNormalized = normalizeName(myMission.targetName)
-      const updatedState = await eliminateTarget(claimedPlayerName, targetNameNormalized)
+      const view = await eliminateTarget(claimedPlayerName, targetNameNormalized)
       
-      if (updatedState) {
-        // Update local mission with current room
-        const currentAssignment = getCurrentAssignment(updatedState, claimedPlayerName)
-        if (currentAssignment) {
-          setMyMission(currentAssignment)
+      if (view) {
+        // The kill waits for the target's confirmation; the banner shows its status
+        applyView(view)
+        if (!view.pendingReport && view.assignment) {
           setEliminationMessage(t.instructions.eliminationSuccess)
           setTimeout(() => setEliminationMessage(null), 5000)
         }
@@ -169,12 +207,12 @@ function HomePageContent() {
     }
 
     try {
-      const updatedState = await markPlayerAsDead(claimedPlayerName)
-      if (updatedState) {
+      const view = await markPlayerAsDead(claimedPlayerName)
+      if (view) {
         setEliminationMessage(t.instructions.markedAsDead)
         setTimeout(() => setEliminationMessage(null), 5000)
-        // Clear mission since player is dead
-        setMyMission(null)
+        // The mission is gone now that the player is dead
+        applyView(view)
       }
     } catch (err) {
       console.error('Error marking as dead:', err)
@@ -183,6 +221,20 @@ function HomePageContent() {
     }
   }
 
+  const handleAnswerElimination = async (confirmed: boolean) => {
+    setAnswering(true)
+    try {
+      const view = await answerPendingElimination(confirmed)
+      if (view) {
+        applyView(view)
+        setEliminationMessage(confirmed ? t.instructions.markedAsDead : t.instructions.eliminationDisputeSent)
+        setTimeout(() => setEliminationMessage(null), 5000)
+      }
+    } finally {
+      setAnswering(false)
+    }
+  }
+
   const handleFlushDatabase = () => {
     if (confirm(t.instructions.flushConfirm)) {
       flushDatabase()
@@ -216,83 +268,90 @@ function HomePageContent() {
         {mounted && hasActiveGame && myMission && timeUntilRoomChange !== null && timeUntilRoomChange > 0 && (
           <div className="bg-yellow-100 border-2 border-yellow-500 rounded-lg p-3 mb-3 text-center shadow-lg">
             <p className="text-xl md:text-2xl font-bold text-yellow-900">
-              ⏱️ {t.instructions.roomChangeIn} {Math.ceil(timeUntilRoomChange / 1000)} {t.instructions.seconds}
+              ⏱️ {activeGame?.rotateObjects ? t.instructions.roomAndObjectChangeIn : t.instructions.roomChangeIn} {Math.ceil(timeUntilRoomChange / 1000)} {t.instructions.seconds}
             </p>
           </div>
         )}
-        <div className="h-full grid grid-cols-2 grid-rows-3 gap-2 md:gap-3">
-          {/* Objective */}
-          <div className="bg-white border-[3px] border-blue-600 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
-            <h2 className="text-xl md:text-2xl font-bold mb-2 text-blue-900 flex-shrink-0">🎯 {t.instructions.objective}</h2>
-            <p className="text-base md:text-lg leading-tight text-gray-900 flex-1 overflow-y-auto">
-              {t.instructions.objectiveText}
-            </p>
-          </div>
-
-          {/* What You Receive */}
-          <div className="bg-yellow-50 border-[3px] border-yellow-600 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
-            <h2 className="text-xl md:text-2xl font-bold mb-2 text-yellow-900 flex-shrink-0">📋 {t.instructions.whatYouReceive}</h2>
-            <ul className="text-base md:text-lg leading-tight text-gray-900 space-y-1 flex-1 overflow-y-auto">
-              {t.instructions.whatYouReceiveItems.map((item, i) => (
-                <li key={i}>• {item}</li>
-              ))}
-            </ul>
-            <p className="text-sm md:text-base font-bold text-red-700 mt-2 flex-shrink-0">
-              ⚠️ {t.instructions.keepSecret}
-            </p>
+        {mounted && hasActiveGame && activeGame && <GameClock state={activeGame} />}
+        {mounted && endedGame ? (
+          <div className="h-full overflow-y-auto flex items-start justify-center">
+            <GameResults state={endedGame} />
           </div>
-
-          {/* How to Eliminate */}
-          <div className="bg-green-50 border-[3px] border-green-600 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
-            <h2 className="text-xl md:text-2xl font-bold mb-2 text-green-900 flex-shrink-0">⚔️ {t.instructions.howToEliminate}</h2>
-            <div className="flex-1 overflow-y-auto">
-              <p className="text-base md:text-lg leading-tight text-gray-900 mb-2">
-                {t.instructions.whenTarget}
+        ) : (
+          <div className="h-full grid grid-cols-2 grid-rows-3 gap-2 md:gap-3">
+            {/* Objective */}
+            <div className="bg-white border-[3px] border-blue-600 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
+              <h2 className="text-xl md:text-2xl font-bold mb-2 text-blue-900 flex-shrink-0">🎯 {t.instructions.objective}</h2>
+              <p className="text-base md:text-lg leading-tight text-gray-900 flex-1 overflow-y-auto">
+                {t.instructions.objectiveText}
               </p>
-              <ul className="text-base md:text-lg leading-tight text-gray-900 space-y-1 mb-2">
-                {t.instructions.eliminateItems.map((item, i) => (
+            </div>
+
+            {/* What You Receive */}
+            <div className="bg-yellow-50 border-[3px] border-yellow-600 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
+              <h2 className="text-xl md:text-2xl font-bold mb-2 text-yellow-900 flex-shrink-0">📋 {t.instructions.whatYouReceive}</h2>
+              <ul className="text-base md:text-lg leading-tight text-gray-900 space-y-1 flex-1 overflow-y-auto">
+                {t.instructions.whatYouReceiveItems.map((item, i) => (
                   <li key={i}>• {item}</li>
                 ))}
               </ul>
-              <p className="text-base md:text-lg font-bold text-red-700">
-                {t.instructions.sayDead}
+              <p className="text-sm md:text-base font-bold text-red-700 mt-2 flex-shrink-0">
+                ⚠️ {t.instructions.keepSecret}
               </p>
             </div>
-          </div>
 
-          {/* When Eliminated */}
-          <div className="bg-purple-50 border-[3px] border-purple-600 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
-            <h2 className="text-xl md:text-2xl font-bold mb-2 text-purple-900 flex-shrink-0">💀 {t.instructions.whenEliminated}</h2>
-            <ul className="text-base md:text-lg leading-tight text-gray-900 space-y-1 flex-1 overflow-y-auto">
-              {t.instructions.eliminatedItems.map((item, i) => (
-                <li key={i}>• {item}</li>
-              ))}
-            </ul>
-          </div>
+            {/* How to Eliminate */}
+            <div className="bg-green-50 border-[3px] border-green-600 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
+              <h2 className="text-xl md:text-2xl font-bold mb-2 text-green-900 flex-shrink-0">⚔️ {t.instructions.howToEliminate}</h2>
+              <div className="flex-1 overflow-y-auto">
+                <p className="text-base md:text-lg leading-tight text-gray-900 mb-2">
+                  {t.instructions.whenTarget}
+                </p>
+                <ul className="text-base md:text-lg leading-tight text-gray-900 space-y-1 mb-2">
+                  {t.instructions.eliminateItems.map((item, i) => (
+                    <li key={i}>• {item}</li>
+                  ))}
+                </ul>
+                <p className="text-base md:text-lg font-bold text-red-700">
+                  {t.instructions.sayDead}
+                </p>
+              </div>
+            </div>
 
-          {/* Rules */}
-          <div className="bg-indigo-50 border-[3px] border-indigo-600 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
-            <h2 className="text-xl md:text-2xl font-bold mb-2 text-indigo-900 flex-shrink-0">📜 {t.instructions.rules}</h2>
-            <ul className="text-base md:text-lg leading-tight text-gray-900 space-y-1 flex-1 overflow-y-auto">
-              {t.instructions.rulesItems.map((item, i) => (
-                <li key={i}>• {item}</li>
-              ))}
-            </ul>
-          </div>
+            {/* When Eliminated */}
+            <div className="bg-purple-50 border-[3px] border-purple-600 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
+              <h2 className="text-xl md:text-2xl font-bold mb-2 text-purple-900 flex-shrink-0">💀 {t.instructions.whenEliminated}</h2>
+              <ul className="text-base md:text-lg leading-tight text-gray-900 space-y-1 flex-1 overflow-y-auto">
+                {t.instructions.eliminatedItems.map((item, i) => (
+                  <li key={i}>• {item}</li>
+                ))}
+              </ul>
+            </div>
 
-          {/* Final Warning */}
-          <div className="bg-red-100 border-[4px] border-red-700 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
-            <h2 className="text-xl md:text-2xl font-bold mb-2 text-red-900 flex-shrink-0">⚠️ {t.instructions.finalWarning}</h2>
-            <div className="flex-1 overflow-y-auto">
-              <p className="text-2xl md:text-3xl font-bold text-red-900 mb-2">
-                {t.instructions.trustNoOne}
-              </p>
-              <p className="text-base md:text-lg leading-tight text-red-800">
-                {t.instructions.beSuspicious}
-              </p>
+            {/* Rules */}
+            <div className="bg-indigo-50 border-[3px] border-indigo-600 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
+              <h2 className="text-xl md:text-2xl font-bold mb-2 text-indigo-900 flex-shrink-0">📜 {t.instructions.rules}</h2>
+              <ul className="text-base md:text-lg leading-tight text-gray-900 space-y-1 flex-1 overflow-y-auto">
+                {t.instructions.rulesItems.map((item, i) => (
+                  <li key={i}>• {item}</li>
+                ))}
+              </ul>
+            </div>
+
+            {/* Final Warning */}
+            <div className="bg-red-100 border-[4px] border-red-700 rounded-lg p-3 md:p-4 flex flex-col shadow-lg overflow-hidden">
+              <h2 className="text-xl md:text-2xl font-bold mb-2 text-red-900 flex-shrink-0">⚠️ {t.instructions.finalWarning}</h2>
+              <div className="flex-1 overflow-y-auto">
+                <p className="text-2xl md:text-3xl font-bold text-red-900 mb-2">
+                  {t.instructions.trustNoOne}
+                </p>
+                <p className="text-base md:text-lg leading-tight text-red-800">
+                  {t.instructions.beSuspicious}
+                </p>
+              </div>
             </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Footer with CTA */}
@@ -308,7 +367,14 @@ function HomePageContent() {
                 {eliminationMessage}
               </div>
             )}
-            {myMission && (
+            {myMission && pendingReport && !endedGame && (
+              <div className="text-center text-lg font-semibold py-2 px-4 rounded-lg bg-yellow-100 text-yellow-900">
+                {pendingReport.status === 'disputed'
+                  ? t.instructions.eliminationDisputed
+                  : t.instructions.eliminationPending}
+              </div>
+            )}
+            {myMission && !endedGame && (
               <>
                 <button
                   onClick={() => setShowMission(true)}
@@ -317,8 +383,8 @@ function HomePageContent() {
                   {t.instructions.viewMyMission}
                 </button>
                 <button
-                  onClick={handleEliminateTarget}
-                  disabled={eliminating}
+                  onClick={handleEliminateClick}
+                  disabled={eliminating || pendingReport !== null}
                   className="w-full bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white text-center text-xl md:text-2xl font-bold py-3 px-8 rounded-lg transition-colors shadow-lg"
                 >
                   {eliminating ? '...' : t.instructions.eliminateTarget}
@@ -394,7 +460,7 @@ function HomePageContent() {
             {timeUntilRoomChange !== null && timeUntilRoomChange > 0 && (
               <div className="bg-yellow-300 border-2 border-yellow-600 rounded-lg p-4 mb-4">
                 <p className="text-xl md:text-2xl font-bold text-yellow-900">
-                  {t.instructions.roomChangeIn} {Math.ceil(timeUntilRoomChange / 1000)} {t.instructions.seconds}
+                  {activeGame?.rotateObjects ? t.instructions.roomAndObjectChangeIn : t.instructions.roomChangeIn} {Math.ceil(timeUntilRoomChange / 1000)} {t.instructions.seconds}
                 </p>
               </div>
             )}
@@ -403,6 +469,11 @@ function HomePageContent() {
               <div>
                 <p className="text-2xl md:text-3xl text-red-200 mb-2">{t.kiosk.yourTarget}</p>
                 <p className="text-5xl md:text-7xl font-bold">{myMission.targetName}</p>
+                {myMission.targetMembers && (
+                  <p className="text-2xl md:text-3xl mt-2">
+                    {myMission.targetMembers.map((member) => member.name).join(', ')}
+                  </p>
+                )}
               </div>
 
               <div>
@@ -426,6 +497,53 @@ function HomePageContent() {
         </div>
       )}
 
+      {/* Victim Picker (team and Most Wanted games) */}
+      {choosingVictim && victimChoices && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg p-8 max-w-md w-full text-center space-y-4">
+            <p className="text-3xl font-bold text-red-800">🎯 {t.instructions.whoDidYouEliminate}</p>
+            {victimChoices.map((member) => (
+              <button
+                key={member.nameNormalized}
+                onClick={() => handleEliminateTarget(member.nameNormalized)}
+                className="w-full bg-red-600 hover:bg-red-700 text-white text-2xl font-bold py-4 px-6 rounded-lg transition-colors"
+              >
+                {member.name}
+              </button>
+            ))}
+            <button
+              onClick={() => setChoosingVictim(false)}
+              className="w-full bg-gray-600 hover:bg-gray-700 text-white text-xl font-semibold py-3 px-6 rounded-lg transition-colors"
+            >
+              {t.instructions.cancel}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Kill Confirmation Modal */}
+      {pendingAgainstMe && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg p-8 max-w-md w-full text-center space-y-6">
+            <p className="text-3xl font-bold text-red-800">💀 {t.instructions.confirmEliminationTitle}</p>
+            <button
+              onClick={() => handleAnswerElimination(true)}
+              disabled={answering}
+              className="w-full bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white text-2xl font-bold py-4 px-6 rounded-lg transition-colors"
+            >
+              {t.instructions.confirmEliminationYes}
+            </button>
+            <button
+              onClick={() => handleAnswerElimination(false)}
+              disabled={answering}
+              className="w-full bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white text-xl font-semibold py-3 px-6 rounded-lg transition-colors"
+            >
+              {t.instructions.confirmEliminationNo}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Room Entry Modal */}
       {showRoomEntry && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,55 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getTimeUntilGameEnd, type PublicGameState } from '@/lib/game'
+import { formatDuration } from '@/lib/stats'
+import { useLanguage } from '@/contexts/LanguageContext'
+
+interface GameClockProps {
+  state: PublicGameState
+}
+
+// Shows when the host has paused the clock; in timed games counts down to the server's
+// deadline, then announces sudden death
+export default function GameClock({ state }: GameClockProps) {
+  const { t } = useLanguage()
+  const [timeLeft, setTimeLeft] = useState<number | null>(() => getTimeUntilGameEnd(state))
+
+  // Tick locally; the server pushes an update once the deadline is applied
+  useEffect(() => {
+    setTimeLeft(getTimeUntilGameEnd(state))
+    const timer = setInterval(() => setTimeLeft(getTimeUntilGameEnd(state)), 1000)
+    return () => clearInterval(timer)
+  }, [state])
+
+  if (state.endedAt) return null
+
+  if (state.clockPausedAt) {
+    return (
+      <div className="bg-indigo-100 border-2 border-indigo-500 rounded-lg p-3 mb-3 text-center shadow-lg">
+        <p className="text-xl md:text-2xl font-bold text-indigo-900">⏸️ {t.clock.paused}</p>
+      </div>
+    )
+  }
+
+  if (state.suddenDeathRoom) {
+    return (
+      <div className="bg-red-700 border-2 border-red-900 rounded-lg p-3 mb-3 text-center text-white shadow-lg">
+        <p className="text-2xl md:text-3xl font-bold">☠️ {t.clock.suddenDeath}</p>
+        <p className="text-lg md:text-xl">
+          {t.clock.suddenDeathDescription} {state.suddenDeathRoom} · {state.suddenDeathObject}
+        </p>
+      </div>
+    )
+  }
+
+  if (timeLeft === null || timeLeft <= 0) return null
+
+  return (
+    <div className="bg-orange-100 border-2 border-orange-500 rounded-lg p-3 mb-3 text-center shadow-lg">
+      <p className="text-xl md:text-2xl font-bold text-orange-900">
+        ⌛ {t.clock.gameEndsIn} {formatDuration(timeLeft)}
+      </p>
+    </div>
+  )
+}
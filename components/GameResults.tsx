@@ -0,0 +1,46 @@
+'use client'
+
+import type { PublicGameState } from '@/lib/game'
+import GameStats from '@/components/GameStats'
+import { useLanguage } from '@/contexts/LanguageContext'
+
+interface GameResultsProps {
+  state: PublicGameState
+}
+
+export default function GameResults({ state }: GameResultsProps) {
+  const { t } = useLanguage()
+  const winner = state.players.find((p) => p.nameNormalized === state.winner)
+  const winningTeam = state.teams?.find((team) => team.nameNormalized === state.winningTeam)
+  // Ended by the clock rather than by the last kill (sudden death always ends on a kill)
+  const timeUp = Boolean(state.endsAt && state.endedAt && state.endedAt >= state.endsAt && !state.suddenDeathRoom)
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 md:p-8 max-w-2xl w-full mx-auto text-center space-y-6">
+      <h2 className="text-4xl md:text-5xl font-bold text-red-800">🏁 {t.results.gameOver}</h2>
+      {timeUp && <p className="text-2xl font-semibold text-gray-700">⌛ {t.results.timeUp}</p>}
+
+      <div className="bg-yellow-100 border-[3px] border-yellow-500 rounded-lg p-6">
+        {winningTeam ? (
+          <>
+            <p className="text-xl md:text-2xl text-yellow-900 mb-2">
+              {timeUp ? t.results.mostKills : t.results.winningTeam}
+            </p>
+            <p className="text-5xl md:text-6xl font-bold text-yellow-900">🏆 {winningTeam.name}</p>
+          </>
+        ) : winner ? (
+          <>
+            <p className="text-xl md:text-2xl text-yellow-900 mb-2">
+              {timeUp ? t.results.mostKills : t.results.winner}
+            </p>
+            <p className="text-5xl md:text-6xl font-bold text-yellow-900">🏆 {winner.name}</p>
+          </>
+        ) : (
+          <p className="text-3xl font-bold text-yellow-900">{timeUp ? t.results.tie : t.results.noWinner}</p>
+        )}
+      </div>
+
+      <GameStats state={state} />
+    </div>
+  )
+}
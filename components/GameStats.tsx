@@ -0,0 +1,101 @@
+'use client'
+
+import type { PublicGameState } from '@/lib/game'
+import { computeGameStats, formatDuration } from '@/lib/stats'
+import { useLanguage } from '@/contexts/LanguageContext'
+
+interface GameStatsProps {
+  state: PublicGameState
+}
+
+export default function GameStats({ state }: GameStatsProps) {
+  const { t } = useLanguage()
+  const stats = computeGameStats(state)
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <div className="bg-red-50 border-2 border-red-300 rounded-lg p-3">
+          <p className="text-sm text-red-900">🚪 {t.stats.deadliestRoom}</p>
+          <p className="text-lg font-bold">
+            {stats.deadliestRoom ? `${stats.deadliestRoom.name} (${stats.deadliestRoom.kills})` : '—'}
+          </p>
+        </div>
+        <div className="bg-red-50 border-2 border-red-300 rounded-lg p-3">
+          <p className="text-sm text-red-900">🔪 {t.stats.deadliestObject}</p>
+          <p className="text-lg font-bold">
+            {stats.deadliestObject ? `${stats.deadliestObject.name} (${stats.deadliestObject.kills})` : '—'}
+          </p>
+        </div>
+        <div className="bg-red-50 border-2 border-red-300 rounded-lg p-3">
+          <p className="text-sm text-red-900">⏱️ {t.stats.firstKill}</p>
+          <p className="text-lg font-bold">
+            {stats.timeToFirstKillMs !== null ? formatDuration(stats.timeToFirstKillMs) : '—'}
+          </p>
+        </div>
+      </div>
+
+      {stats.teams.length > 0 && (
+        <div>
+          <h3 className="text-2xl font-semibold mb-3 text-center">{t.stats.teamScoreboard}</h3>
+          <table className="w-full">
+            <thead>
+              <tr className="text-sm text-gray-600">
+                <th className="text-left p-2">{t.stats.team}</th>
+                <th className="text-right p-2">{t.stats.kills}</th>
+                <th className="text-right p-2">{t.stats.membersLeft}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.teams.map((team, i) => (
+                <tr
+                  key={team.nameNormalized}
+                  className={team.nameNormalized === state.winningTeam ? 'bg-yellow-200 font-bold' : i % 2 === 0 ? 'bg-gray-100' : ''}
+                >
+                  <td className="p-2">
+                    {i + 1}. {team.name}
+                  </td>
+                  <td className="p-2 text-right">🗡️ {team.kills}</td>
+                  <td className="p-2 text-right">
+                    {team.membersLeft} / {team.members}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-2xl font-semibold mb-3 text-center">{t.stats.leaderboard}</h3>
+        <table className="w-full">
+          <thead>
+            <tr className="text-sm text-gray-600">
+              <th className="text-left p-2">{t.stats.player}</th>
+              <th className="text-right p-2">{t.stats.kills}</th>
+              <th className="text-right p-2">{t.stats.longestStreak}</th>
+              <th className="text-right p-2">{t.stats.survived}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.players.map((player, i) => (
+              <tr
+                key={player.nameNormalized}
+                className={player.nameNormalized === state.winner ? 'bg-yellow-200 font-bold' : i % 2 === 0 ? 'bg-gray-100' : ''}
+              >
+                <td className="p-2">
+                  {i + 1}. {player.name}
+                </td>
+                <td className="p-2 text-right">🗡️ {player.kills}</td>
+                <td className="p-2 text-right">{player.longestStreak}</td>
+                <td className="p-2 text-right">
+                  {player.survivalMs !== null ? formatDuration(player.survivalMs) : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
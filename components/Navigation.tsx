@@ -14,6 +14,7 @@ export default function Navigation() {
     { href: '/', label: t.nav.instructions },
     { href: '/host', label: t.nav.hostSetup },
     { href: '/kiosk', label: t.nav.kioskMode },
+    { href: '/history', label: t.nav.history },
   ]
 
   return (
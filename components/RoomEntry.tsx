@@ -2,12 +2,8 @@
 
 import { useState, useEffect } from 'react'
 import { 
-  loadGameByRoom, 
   loadGameFromServer, 
-  loadRoomConfigFromServer,
-  generateGameFromConfig,
   saveGame, 
-  syncGameToServer,
   flushDatabase
 } from '@/lib/game'
 import { useRouter } from 'next/navigation'
@@ -55,28 +51,8 @@ export default function RoomEntry({ onJoin, initialRoomNumber }: RoomEntryProps)
     }
 
     try {
-      // Try to load game state from server first
-      let gameState = await loadGameFromServer(trimmed)
-      
-      // If game state not found, try to load room config and regenerate
-      if (!gameState) {
-        const roomConfig = await loadRoomConfigFromServer(trimmed)
-        
-        if (roomConfig) {
-          // Regenerate game state deterministically from room config
-          gameState = generateGameFromConfig(roomConfig, trimmed)
-          
-          // Sync regenerated game state to server
-          await syncGameToServer(gameState)
-        } else {
-          // Try local generation as fallback
-          gameState = loadGameByRoom(trimmed)
-          if (gameState) {
-            // Sync local game to server
-            await syncGameToServer(gameState)
-          }
-        }
-      }
+      // The server is the only source of game state
+      const gameState = await loadGameFromServer(trimmed)
       
       if (!gameState) {
         setError(t.roomEntry.roomNotFound)
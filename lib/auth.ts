@@ -0,0 +1,176 @@
+// Server-side tokens that identify players and the host of a room
+// Only hashes are stored in game state; raw tokens live on the device that received them
+
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto'
+import type { NextRequest, NextResponse } from 'next/server'
+import type { GameStateLatest } from '@/lib/game'
+
+export const PLAYER_TOKEN_HEADER = 'x-player-token'
+
+// Host sessions end with the game: rooms expire a day after creation at the latest,
+// and a finished game only needs its host for a while longer (results, reset)
+const GAME_LIFETIME_MS = 24 * 60 * 60 * 1000
+const ENDED_GAME_HOST_GRACE_MS = 60 * 60 * 1000
+// Keep only the most recent host sessions (host device, kiosk, ...)
+const MAX_HOST_SESSIONS = 10
+// Lock PIN entry for a while after too many wrong guesses
+const MAX_PIN_ATTEMPTS = 5
+const PIN_LOCKOUT_MS = 5 * 60 * 1000
+
+/**
+ * Generate an opaque random token
+ */
+export function generateToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+/**
+ * Hash a token for storage
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Compare a raw token against a stored hash in constant time
+ */
+export function tokenMatches(token: string, hash: string | undefined): boolean {
+  if (!hash) return false
+  const a = Buffer.from(hashToken(token), 'hex')
+  const b = Buffer.from(hash, 'hex')
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/**
+ * Resolve the player (nameNormalized) whose token was sent with the request
+ */
+export function getRequestPlayer(request: NextRequest, state: GameStateLatest): string | null {
+  const token = request.headers.get(PLAYER_TOKEN_HEADER)
+  if (!token) return null
+
+  const hashes = state.playerTokenHashes || {}
+  for (const [nameNormalized, hash] of Object.entries(hashes)) {
+    if (tokenMatches(token, hash)) {
+      return nameNormalized
+    }
+  }
+  return null
+}
+
+/**
+ * Hash a host PIN with a random salt ("salt:hash", both hex)
+ */
+export function hashPin(pin: string): string {
+  const salt = randomBytes(16)
+  const hash = scryptSync(pin, salt, 32)
+  return `${salt.toString('hex')}:${hash.toString('hex')}`
+}
+
+/**
+ * Check a PIN against a stored "salt:hash" in constant time
+ */
+export function verifyPin(pin: string, stored: string | undefined): boolean {
+  if (!stored) return false
+  const [saltHex, hashHex] = stored.split(':')
+  if (!saltHex || !hashHex) return false
+  const expected = Buffer.from(hashHex, 'hex')
+  const actual = scryptSync(pin, Buffer.from(saltHex, 'hex'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+/**
+ * Whether PIN entry is currently locked after too many wrong guesses
+ */
+export function isPinLocked(state: GameStateLatest, now: number = Date.now()): boolean {
+  return (state.hostPinLockedUntil ?? 0) > now
+}
+
+/**
+ * Record a wrong PIN guess, locking PIN entry once the limit is reached
+ */
+export function recordPinFailure(state: GameStateLatest, now: number = Date.now()): void {
+  const attempts = (state.hostPinFailedAttempts ?? 0) + 1
+  if (attempts >= MAX_PIN_ATTEMPTS) {
+    state.hostPinFailedAttempts = 0
+    state.hostPinLockedUntil = now + PIN_LOCKOUT_MS
+  } else {
+    state.hostPinFailedAttempts = attempts
+  }
+}
+
+function hostSessionCookieName(roomNumber: string): string {
+  return `sa_host_session_${roomNumber}`
+}
+
+/**
+ * Start a new host session: stores its hash in state and returns the raw token
+ * The caller must save the state and then set the cookie
+ */
+export function issueHostSession(state: GameStateLatest): string {
+  const token = generateToken()
+  state.hostSessionHashes = [...(state.hostSessionHashes || []), hashToken(token)].slice(-MAX_HOST_SESSIONS)
+  state.hostPinFailedAttempts = 0
+  return token
+}
+
+/**
+ * Stop accepting the host session sent with the request; returns false if it was not valid
+ * The caller must save the state and then clear the cookie
+ */
+export function revokeHostSession(request: NextRequest, state: GameStateLatest): boolean {
+  const token = request.cookies.get(hostSessionCookieName(state.roomNumber))?.value
+  if (!token) return false
+  const hashes = state.hostSessionHashes || []
+  const remaining = hashes.filter((hash) => !tokenMatches(token, hash))
+  state.hostSessionHashes = remaining
+  return remaining.length < hashes.length
+}
+
+// Seconds until the game's host no longer needs a session (at least one)
+function hostSessionMaxAge(state: GameStateLatest, now: number): number {
+  const expiresAt = Math.min(
+    state.createdAt + GAME_LIFETIME_MS,
+    state.endedAt ? state.endedAt + ENDED_GAME_HOST_GRACE_MS : Infinity
+  )
+  return Math.max(Math.ceil((expiresAt - now) / 1000), 1)
+}
+
+/**
+ * Attach the HTTP-only host session cookie to a response; it expires with the game
+ */
+export function setHostSessionCookie(
+  response: NextResponse,
+  state: GameStateLatest,
+  token: string,
+  now: number = Date.now()
+): void {
+  response.cookies.set(hostSessionCookieName(state.roomNumber), token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: hostSessionMaxAge(state, now),
+  })
+}
+
+/**
+ * Remove the host session cookie from this device
+ */
+export function clearHostSessionCookie(response: NextResponse, roomNumber: string): void {
+  response.cookies.set(hostSessionCookieName(roomNumber), '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0,
+  })
+}
+
+/**
+ * Check whether the request carries a valid host session cookie for the room
+ */
+export function isHostRequest(request: NextRequest, state: GameStateLatest): boolean {
+  const token = request.cookies.get(hostSessionCookieName(state.roomNumber))?.value
+  if (!token) return false
+  return (state.hostSessionHashes || []).some((hash) => tokenMatches(token, hash))
+}
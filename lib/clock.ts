@@ -0,0 +1,39 @@
+// Changes that fall due with time rather than with a write: kills whose victim never answered
+// and the deadline of timed games
+// Reads apply them before answering, so event-stream timers only push them out sooner
+
+import type { GameStateLatest } from '@/lib/game'
+import { applyDeadline, applyExpiredEliminations } from '@/lib/game'
+import { publishGameEvent } from '@/lib/events'
+import { archiveFinishedGame } from '@/lib/history'
+import { getGameStore } from '@/lib/store'
+
+// Concurrent writers rarely collide more than once; after that, answer with what is stored
+const MAX_SAVE_ATTEMPTS = 3
+
+/**
+ * Load a game with everything that has fallen due applied and saved
+ * Compare-and-set lets only one reader save the change; the others reload and see it
+ */
+export async function getGameWithDueChanges(roomNumber: string): Promise<GameStateLatest | null> {
+  const store = getGameStore()
+
+  for (let attempt = 1; ; attempt++) {
+    const state = await store.getGame(roomNumber)
+    if (!state || attempt > MAX_SAVE_ATTEMPTS) return state
+
+    // Kills that went through before the deadline count towards the final result
+    const expectedRevision = state.revision ?? 0
+    const now = Date.now()
+    const expired = applyExpiredEliminations(state, now)
+    const timeUp = applyDeadline(state, 'server', now)
+    if (expired.length === 0 && !timeUp) return state
+
+    if (await store.compareAndSetGame(roomNumber, expectedRevision, state)) {
+      // The last kill or the deadline archives the game to its party group's history
+      await archiveFinishedGame(state)
+      await publishGameEvent(roomNumber, expired.length > 0 ? 'eliminated' : 'time_up', state)
+      return state
+    }
+  }
+}
@@ -0,0 +1,122 @@
+// Server-side fan-out of game update events to open SSE streams
+// Uses Redis pub/sub when REDIS_URL is set, otherwise an in-process emitter
+
+import { EventEmitter } from 'events'
+import type Redis from 'ioredis'
+import type { GameStateLatest, GameUpdateEvent, HostGameState } from '@/lib/game'
+import { toHostGameState } from '@/lib/game'
+import { getRedisClient } from '@/lib/store'
+
+// The state after the write travels with the event so streams need not reload it;
+// it stays on the server, clients only ever receive the event
+export type GameBusMessage = {
+  event: GameUpdateEvent
+  state?: HostGameState // Missing once the room is deleted
+}
+
+type Listener = (message: GameBusMessage) => void
+
+export interface GameEventBus {
+  publish(roomNumber: string, message: GameBusMessage): Promise<void>
+  /**
+   * Listen for events in a room. Returns a function that stops listening.
+   */
+  subscribe(roomNumber: string, listener: Listener): () => void
+}
+
+function channelFor(roomNumber: string): string {
+  return `game-events:${roomNumber}`
+}
+
+class RedisGameEventBus implements GameEventBus {
+  // Subscribed connections cannot run other commands, so use a dedicated one
+  private subscriber: Redis
+  private emitter = new EventEmitter()
+
+  constructor(private redis: Redis) {
+    this.emitter.setMaxListeners(0)
+    this.subscriber = redis.duplicate()
+    this.subscriber.on('message', (channel: string, message: string) => {
+      try {
+        this.emitter.emit(channel, JSON.parse(message) as GameBusMessage)
+      } catch (e) {
+        console.error('Invalid game event message:', e)
+      }
+    })
+  }
+
+  async publish(roomNumber: string, message: GameBusMessage): Promise<void> {
+    await this.redis.publish(channelFor(roomNumber), JSON.stringify(message))
+  }
+
+  subscribe(roomNumber: string, listener: Listener): () => void {
+    const channel = channelFor(roomNumber)
+    if (this.emitter.listenerCount(channel) === 0) {
+      this.subscriber.subscribe(channel).catch((e) => console.error('Failed to subscribe:', e))
+    }
+    this.emitter.on(channel, listener)
+
+    return () => {
+      this.emitter.off(channel, listener)
+      if (this.emitter.listenerCount(channel) === 0) {
+        this.subscriber.unsubscribe(channel).catch((e) => console.error('Failed to unsubscribe:', e))
+      }
+    }
+  }
+}
+
+/**
+ * In-process fallback (only reaches streams served by the same instance)
+ */
+class MemoryGameEventBus implements GameEventBus {
+  private emitter = new EventEmitter()
+
+  constructor() {
+    this.emitter.setMaxListeners(0)
+  }
+
+  async publish(roomNumber: string, message: GameBusMessage): Promise<void> {
+    this.emitter.emit(channelFor(roomNumber), message)
+  }
+
+  subscribe(roomNumber: string, listener: Listener): () => void {
+    const channel = channelFor(roomNumber)
+    this.emitter.on(channel, listener)
+    return () => {
+      this.emitter.off(channel, listener)
+    }
+  }
+}
+
+// Shared across route bundles and dev hot reloads, like the game store
+const globalForEvents = globalThis as unknown as { gameEventBus?: GameEventBus }
+
+/**
+ * Get the shared event bus for this process
+ */
+export function getGameEventBus(): GameEventBus {
+  if (globalForEvents.gameEventBus) return globalForEvents.gameEventBus
+
+  const redis = getRedisClient()
+  globalForEvents.gameEventBus = redis ? new RedisGameEventBus(redis) : new MemoryGameEventBus()
+  return globalForEvents.gameEventBus
+}
+
+/**
+ * Notify every open stream in a room of the state just saved; failures are logged, never thrown,
+ * since the write they describe has already been saved
+ */
+export async function publishGameEvent(
+  roomNumber: string,
+  type: GameUpdateEvent['type'],
+  state?: GameStateLatest
+): Promise<void> {
+  try {
+    await getGameEventBus().publish(roomNumber, {
+      event: { type, at: Date.now() },
+      ...(state && { state: toHostGameState(state) }),
+    })
+  } catch (e) {
+    console.error('Failed to publish game event:', e)
+  }
+}
@@ -1,29 +1,200 @@
 // Game state types and logic for Secret Assassin
 
+import type { ArchivedGame, PlayerProfile } from "@/lib/history";
+
+// unclaimed: mission not handed out yet; alive: claimed and still playing;
+// eliminated: killed (or self-reported dead); left: removed from the game
+export type PlayerStatus = "unclaimed" | "alive" | "eliminated" | "left";
+
 export type Player = {
   name: string;
   nameNormalized: string;
+  status: PlayerStatus;
+  eliminatedBy?: string | null; // Killer nameNormalized, null when the killer is unknown
+  eliminatedAt?: number;
+  team?: string; // Team games only: nameNormalized of the player's team
+};
+
+// Team games: teams hunt teams, and every member of a team shares its target
+export type Team = {
+  name: string;
+  nameNormalized: string;
 };
 
+// What happens when a timed game runs out of time: the most kills win, or everyone
+// left meets in a single room with a single object until one assassin is left
+export type TimeUpMode = "most_kills" | "sudden_death";
+
+// When the rotation clock starts: at game creation, or once every player has claimed
+export type RotationAnchor = "created" | "all_claimed";
+
 export type Assignment = {
-  targetName: string;
+  targetName: string; // Most Wanted games: every open contract, comma separated
+  contracts?: string[]; // Most Wanted games: nameNormalized of each player this player may eliminate
   room: string;
   object: string;
 };
 
-export type GameStateV1 = {
-  version: "v1";
+export type GameStateV4 = {
+  version: "v4";
   gameId: string;
   roomNumber: string; // 4-6 digit room code
   createdAt: number;
-  hostPin?: string; // 4 digits, optional
+  hostPinHash?: string; // Server only: salted hash of the 4-digit host PIN, optional
   players: Player[];
   rooms: string[];
   objects: string[];
   assignmentsByName: Record<string, Assignment>; // key=nameNormalized
   claimedByName: Record<string, boolean>;
-  eliminations: Record<string, string>; // key=killer nameNormalized, value=eliminated nameNormalized
+  eliminations: Elimination[]; // Every kill and self-reported death, oldest first
+  pendingEliminations: PendingElimination[]; // Host only: reported kills waiting for the victim (or the host)
   roomRotationIntervalMinutes?: number; // Default: 1 minute
+  eliminationConfirmTimeoutMinutes?: number; // Default: 5 minutes
+  rotationAnchor?: RotationAnchor; // Games created before the all_claimed default have none: created
+  rotateObjects?: boolean; // Objects rotate along with rooms, each player on their own schedule
+  allClaimedAt?: number; // Set by the server once no player is left waiting to claim
+  clockPausedAt?: number; // Set while the host has paused the game clock
+  clockPausedMs?: number; // Time rotation has spent paused, not counting the current pause
+  endedAt?: number; // Set once a single assassin is left; rooms stop rotating
+  winner?: string | null; // nameNormalized of the last assassin standing, null if nobody is left
+  partyGroup?: string; // Normalized party group whose history this game counts towards
+  teams?: Team[]; // Team games only
+  teamTargets?: Record<string, string>; // Host only: key=team nameNormalized, value=the team it hunts
+  winningTeam?: string | null; // Team games: nameNormalized of the last team standing
+  contractsPerPlayer?: number; // Most Wanted games: open contracts drawn for each player after every kill
+  endsAt?: number; // Timed games: the deadline, set by the server when the game is created
+  timeUpMode?: TimeUpMode; // Timed games: what happens at endsAt
+  suddenDeathRoom?: string; // Set once sudden death starts: the room every survivor shares
+  suddenDeathObject?: string; // Set once sudden death starts: the object every survivor shares
+  revision?: number; // Bumped by the server on every write, used for compare-and-set
+  seed?: string; // Host only: secret seed that reproduces these assignments from the room config
+  hostSessionHashes?: string[]; // Server only: sha256 of each active host session cookie
+  hostPinFailedAttempts?: number; // Server only: wrong PIN guesses since the last success
+  hostPinLockedUntil?: number; // Server only: PIN entry is locked until this time
+  playerTokenHashes?: Record<string, string>; // Server only: key=nameNormalized, value=sha256 of player token
+  eventLog: GameLogEntry[]; // Server only: append-only audit trail, read by the host through /events-log
+};
+
+// Kills were applied as soon as the killer reported them
+export type GameStateV3 = Omit<GameStateV4, "version" | "pendingEliminations"> & {
+  version: "v3";
+};
+
+// Players had no lifecycle status; it was inferred from claims and eliminations
+export type GameStateV2 = Omit<GameStateV3, "version" | "players"> & {
+  version: "v2";
+  players: Pick<Player, "name" | "nameNormalized">[];
+};
+
+// Original schema: eliminations keyed by killer ("dead_<victim>" for self-reports)
+// and no guaranteed audit trail
+export type GameStateV1 = Omit<GameStateV2, "version" | "eliminations" | "eventLog"> & {
+  version: "v1";
+  eliminations?: Record<string, string> | Elimination[];
+  eventLog?: GameLogEntry[];
+  hostPin?: string; // Plain-text PIN kept by early versions
+};
+
+// The schema every reader works with; older shapes go through migrateGameState
+export type GameStateLatest = GameStateV4;
+const GAME_STATE_VERSION: GameStateLatest["version"] = "v4";
+
+// How long a victim has to answer before a reported kill goes through
+export const DEFAULT_ELIMINATION_CONFIRM_TIMEOUT_MINUTES = 5;
+
+// A single kill; a killer can appear in many records
+export type Elimination = {
+  killer: string | null; // Killer nameNormalized, null when unknown
+  victim: string; // Eliminated player's nameNormalized
+  at: number;
+  room?: string; // Where the kill happened (unknown when the killer is)
+  object?: string; // Object used (unknown when the killer is)
+  selfReported?: boolean; // The victim reported it; the kill is credited to their hunter
+};
+
+// A kill reported by the killer that the victim has not confirmed yet
+// Disputed kills wait for the host and never time out
+export type PendingElimination = {
+  id: string;
+  killer: string; // nameNormalized
+  victim: string; // nameNormalized
+  reportedAt: number;
+  status: "pending" | "disputed";
+};
+
+// One entry in a room's audit trail
+export type GameLogEntry = {
+  type:
+    | "created"
+    | "claimed"
+    | "elimination_reported"
+    | "elimination_disputed"
+    | "elimination_rejected"
+    | "eliminated"
+    | "self_reported_dead"
+    | "elimination_undone"
+    | "revived"
+    | "joined"
+    | "left"
+    | "ended"
+    | "time_up"
+    | "clock_paused"
+    | "clock_resumed"
+    | "reset";
+  at: number;
+  actor: string; // "host", "server" for clock-driven changes, or the acting player's nameNormalized
+  target?: string; // nameNormalized of the eliminated player
+};
+
+// Fields that never leave the server
+type ServerSecretField =
+  | "hostPinHash"
+  | "hostSessionHashes"
+  | "hostPinFailedAttempts"
+  | "hostPinLockedUntil"
+  | "playerTokenHashes"
+  | "eventLog";
+
+// Everything the host may see, including every mission
+export type HostGameState = Omit<GameStateLatest, ServerSecretField> & {
+  hasHostPin: boolean;
+};
+
+// Game state without anyone's mission, pending kills or the seed, safe to send to every player
+export type PublicGameState = Omit<HostGameState, "assignmentsByName" | "pendingEliminations" | "seed" | "teamTargets">;
+
+// Pushed to clients over /api/game/{room}/events; carries no game data,
+// clients refetch what they are allowed to see
+export type GameUpdateEvent = {
+  type:
+    | "connected"
+    | "claimed"
+    | "pending"
+    | "eliminated"
+    | "moderated"
+    | "rotation"
+    | "time_up"
+    | "reset"
+    | "deleted";
+  at: number;
+};
+
+// What a single player is allowed to see: their own mission plus public game status
+export type PlayerView = {
+  player: Player;
+  assignment: CurrentAssignment | null; // null once eliminated or removed
+  isEliminated: boolean;
+  pendingReport: PendingKillView | null; // The kill this player reported, until it is applied
+  pendingAgainstMe: PendingKillView | null; // A kill reported against this player, waiting for their answer
+  game: PublicGameState;
+};
+
+// A pending kill as shown to the killer or the victim; the victim is never told who reported it
+export type PendingKillView = {
+  id: string;
+  victim: string; // nameNormalized
+  status: PendingElimination["status"];
+  expiresAt: number | null; // null while disputed
 };
 
 export type RoomConfig = {
@@ -34,15 +205,42 @@ export type RoomConfig = {
   hostPin?: string;
   createdAt: number;
   roomRotationIntervalMinutes?: number; // Default: 1 minute
+  eliminationConfirmTimeoutMinutes?: number; // Default: 5 minutes
+  rotationAnchor?: RotationAnchor; // Default: all_claimed
+  rotateObjects?: boolean; // Default: false, objects stay fixed
+  partyGroup?: string; // Optional, normalized: finished games are archived to this group's history
+  teams?: TeamConfig[]; // Team mode: every player is listed in exactly one team
+  contractsPerPlayer?: number; // Most Wanted mode: how many open contracts each player holds
+  gameDurationMinutes?: number; // Timed games: no limit unless set
+  timeUpMode?: TimeUpMode; // Timed games, default: most_kills
+  seed?: string; // Secret per-game seed, generated by the server
+};
+
+export type TeamConfig = {
+  name: string;
+  members: string[]; // Player names as listed in playerNames
+};
+
+// Room codes can be 4, 5 or 6 digits long
+export type RoomNumberDigits = 4 | 5 | 6;
+
+// Room config as sent by the host; the server assigns roomNumber and createdAt
+// and never stores hostPin in plain text
+export type NewRoomConfig = Omit<RoomConfig, "roomNumber" | "createdAt" | "seed"> & {
+  roomNumberDigits?: RoomNumberDigits; // Default: 4
 };
 
 // Storage keys
 const ACTIVE_GAME_KEY = "sa_active_game_id_v1";
 const ACTIVE_ROOM_KEY = "sa_active_room_v1";
 const CLAIMED_PLAYER_KEY = "sa_claimed_player_v1"; // Store which player claimed on this device
+const PLAYER_TOKEN_KEY = "sa_player_token_v1"; // Secret token for the player claimed on this device
 const GAME_STATE_PREFIX = "sa_game_state_v1:";
 const ROOM_CONFIG_PREFIX = "sa_room_config_v1:";
 
+// Most Wanted games: open contracts per player unless the host picks another number
+export const DEFAULT_CONTRACTS_PER_PLAYER = 3;
+
 /**
  * Normalize a name: trim, lowercase, collapse whitespace
  */
@@ -51,26 +249,89 @@ export function normalizeName(s: string): string {
 }
 
 /**
- * Seeded random number generator (Linear Congruential Generator)
+ * Generate a secret 256-bit seed (hex) for a new game
+ */
+export function generateSeed(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function rotl(v: number, c: number): number {
+  return (v << c) | (v >>> (32 - c));
+}
+
+function quarterRound(x: Uint32Array, a: number, b: number, c: number, d: number): void {
+  x[a] += x[b]; x[d] = rotl(x[d] ^ x[a], 16);
+  x[c] += x[d]; x[b] = rotl(x[b] ^ x[c], 12);
+  x[a] += x[b]; x[d] = rotl(x[d] ^ x[a], 8);
+  x[c] += x[d]; x[b] = rotl(x[b] ^ x[c], 7);
+}
+
+/**
+ * ChaCha20 block function (RFC 8439): 8-word key, 32-bit counter, 3-word nonce
+ */
+function chachaBlock(key: Uint32Array, counter: number, nonce: Uint32Array): Uint32Array {
+  const input = new Uint32Array(16);
+  input.set([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]); // "expand 32-byte k"
+  input.set(key, 4);
+  input[12] = counter;
+  input.set(nonce, 13);
+
+  const x = input.slice();
+  for (let round = 0; round < 10; round++) {
+    quarterRound(x, 0, 4, 8, 12);
+    quarterRound(x, 1, 5, 9, 13);
+    quarterRound(x, 2, 6, 10, 14);
+    quarterRound(x, 3, 7, 11, 15);
+    quarterRound(x, 0, 5, 10, 15);
+    quarterRound(x, 1, 6, 11, 12);
+    quarterRound(x, 2, 7, 8, 13);
+    quarterRound(x, 3, 4, 9, 14);
+  }
+  for (let i = 0; i < 16; i++) {
+    x[i] += input[i];
+  }
+  return x;
+}
+
+/**
+ * Seeded random number generator (ChaCha20 keystream)
+ * Deterministic for a given seed string, but unpredictable without the seed
  */
 class SeededRandom {
-  private seed: number;
+  private key: Uint32Array;
+  private nonce = new Uint32Array(3);
+  private counter = 0;
+  private block: Uint32Array = new Uint32Array(16);
+  private index = 16;
 
   constructor(seed: string) {
-    // Convert string to numeric seed
-    let hash = 0;
-    for (let i = 0; i < seed.length; i++) {
-      const char = seed.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+    // Absorb the seed string into a 256-bit key, 32 bytes at a time
+    const bytes = new TextEncoder().encode(seed);
+    let key: Uint32Array = new Uint32Array(8);
+    for (let offset = 0; offset === 0 || offset < bytes.length; offset += 32) {
+      for (let i = 0; i < 32 && offset + i < bytes.length; i++) {
+        key[i >> 2] ^= bytes[offset + i] << ((i & 3) * 8);
+      }
+      key = chachaBlock(key, offset / 32, this.nonce).slice(0, 8);
     }
-    this.seed = Math.abs(hash) || 1;
+    this.key = key;
+  }
+
+  private nextWord(): number {
+    if (this.index === 16) {
+      this.block = chachaBlock(this.key, this.counter++, this.nonce);
+      this.index = 0;
+    }
+    return this.block[this.index++];
   }
 
   next(): number {
-    // LCG parameters (same as used in many programming languages)
-    this.seed = (this.seed * 1664525 + 1013904223) % Math.pow(2, 32);
-    return this.seed / Math.pow(2, 32);
+    // 53 random bits -> float in [0, 1)
+    const high = this.nextWord() >>> 5;
+    const low = this.nextWord() >>> 6;
+    return (high * 67108864 + low) / 9007199254740992;
   }
 }
 
@@ -145,9 +406,11 @@ function randomBase36(length: number): string {
 
 /**
  * Generate a room number (4-6 digits)
+ * Does not check for collisions, the server reserves it atomically
  */
-function generateRoomNumber(): string {
-  const num = Math.floor(1000 + Math.random() * 9000); // 4-digit number
+export function generateRoomNumber(digits: RoomNumberDigits = 4): string {
+  const min = Math.pow(10, digits - 1);
+  const num = Math.floor(min + Math.random() * (9 * min)); // e.g. 1000-9999 for 4 digits
   return num.toString();
 }
 
@@ -195,7 +458,7 @@ export function getActiveRoomNumber(): string | null {
 /**
  * Load the active game state from localStorage
  */
-export function loadActiveGame(): GameStateV1 | null {
+export function loadActiveGame(): PublicGameState | null {
   try {
     const activeGameId = localStorage.getItem(ACTIVE_GAME_KEY);
     if (!activeGameId) {
@@ -208,30 +471,20 @@ export function loadActiveGame(): GameStateV1 | null {
       return null;
     }
 
-    return JSON.parse(stateJson) as GameStateV1;
+    // The stored copy is a public view: migrate it like any saved state, then project it back,
+    // keeping the PIN flag the server computed since the copy has no PIN hash to derive it from
+    const stored: Partial<PublicGameState> = JSON.parse(stateJson);
+    return { ...toPublicGameState(migrateGameState(stored)), hasHostPin: stored.hasHostPin ?? false };
   } catch (error) {
     console.error("Error loading game state:", error);
     return null;
   }
 }
 
-/**
- * Load game state by room number (regenerates deterministically)
- */
-export function loadGameByRoom(roomNumber: string): GameStateV1 | null {
-  const config = loadRoomConfig(roomNumber);
-  if (!config) {
-    return null;
-  }
-
-  // Regenerate game state deterministically from config
-  return generateGameFromConfig(config, roomNumber);
-}
-
 /**
  * Save game state to localStorage
  */
-export function saveGame(state: GameStateV1): void {
+export function saveGame(state: PublicGameState): void {
   try {
     const stateKey = `${GAME_STATE_PREFIX}${state.gameId}`;
     localStorage.setItem(stateKey, JSON.stringify(state));
@@ -283,7 +536,8 @@ export function flushDatabase(): void {
         key.startsWith(ROOM_CONFIG_PREFIX) ||
         key === ACTIVE_GAME_KEY ||
         key === ACTIVE_ROOM_KEY ||
-        key === CLAIMED_PLAYER_KEY
+        key === CLAIMED_PLAYER_KEY ||
+        key === PLAYER_TOKEN_KEY
       ) {
         localStorage.removeItem(key);
       }
@@ -298,7 +552,7 @@ export function flushDatabase(): void {
  */
 export async function markPlayerAsDead(
   playerNameNormalized: string
-): Promise<GameStateV1 | null> {
+): Promise<PlayerView | null> {
   const state = loadActiveGame();
   if (!state) {
     return null;
@@ -310,130 +564,271 @@ export async function markPlayerAsDead(
     throw new Error("Player not found in game");
   }
 
-  // Check if already eliminated
-  const alreadyEliminated = Object.values(state.eliminations || {}).includes(playerNameNormalized);
-  if (alreadyEliminated) {
-    return state; // Already marked as dead
+  // The server verifies this device's player token, records the death
+  // and hands this player's mission to whoever was hunting them
+  const view = await syncEliminationToServer(state.roomNumber, null, playerNameNormalized);
+  if (view) {
+    saveGame(view.game);
   }
 
-  // Mark as eliminated (we'll use a special marker to indicate self-reported death)
-  // For now, we'll just mark them in eliminations with a special key
-  if (!state.eliminations) {
-    state.eliminations = {};
+  return view;
+}
+
+/**
+ * Fetch that retries when the server reports a concurrent write (409 Conflict)
+ */
+async function fetchWithConflictRetry(
+  url: string,
+  init: RequestInit,
+  maxAttempts: number = 4
+): Promise<Response> {
+  let response = await fetch(url, init);
+  for (let attempt = 1; attempt < maxAttempts && response.status === 409; attempt++) {
+    // Back off a little (with jitter) so simultaneous reporters don't collide again
+    await new Promise((resolve) => setTimeout(resolve, attempt * 100 + Math.random() * 100));
+    response = await fetch(url, init);
   }
-  
-  // Find who should have eliminated them (their target's target, or mark as self-eliminated)
-  // For simplicity, we'll mark them as eliminated by themselves (self-reported)
-  state.eliminations[`dead_${playerNameNormalized}`] = playerNameNormalized;
+  return response;
+}
 
-  // Save locally
-  saveGame(state);
+/**
+ * Request headers proving which player is using this device
+ * (the host is identified by an HTTP-only session cookie instead)
+ */
+function authHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  try {
+    const playerToken = localStorage.getItem(PLAYER_TOKEN_KEY);
+    if (playerToken) {
+      headers['x-player-token'] = playerToken;
+    }
+  } catch (error) {
+    console.error('Error reading auth tokens:', error);
+  }
+  return headers;
+}
 
-  // Sync to server
-  await syncEliminationToServer(state.roomNumber, `dead_${playerNameNormalized}`, playerNameNormalized);
+/**
+ * Ask the server to create a game from a room config
+ * The server picks the room number and generates all assignments
+ */
+export async function createGameOnServer(config: NewRoomConfig): Promise<HostGameState> {
+  const response = await fetch('/api/game', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(config),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    // Validation errors list each field problem; show them rather than the generic message
+    const issues: { field: string; message: string }[] = result.issues || [];
+    const details = issues.map((issue) => `${issue.field}: ${issue.message}`).join(', ');
+    throw new Error(details || result.error || 'Failed to create game on server');
+  }
 
-  return state;
+  // The response also sets this device's host session cookie
+  return result.state as HostGameState;
 }
 
 /**
- * Sync room config to server
+ * Load public game state from server
  */
-export async function syncRoomConfigToServer(config: RoomConfig): Promise<boolean> {
+export async function loadGameFromServer(roomNumber: string): Promise<PublicGameState | null> {
   try {
-    const response = await fetch(`/api/room/${config.roomNumber}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(config),
+    const response = await fetch(`/api/game/${roomNumber}`, {
+      headers: authHeaders(),
     });
     
     if (!response.ok) {
-      console.error('Failed to sync room config to server');
-      return false;
+      if (response.status === 404) {
+        return null;
+      }
+      throw new Error('Failed to load game from server');
     }
     
-    return true;
+    const state = await response.json() as PublicGameState;
+    return state;
   } catch (error) {
-    console.error('Error syncing room config to server:', error);
-    return false;
+    console.error('Error loading from server:', error);
+    return null;
   }
 }
 
 /**
- * Load room config from server
+ * Load the host view of a game (missions and pending kills); null without a host session
  */
-export async function loadRoomConfigFromServer(roomNumber: string): Promise<RoomConfig | null> {
+export async function loadHostGameFromServer(roomNumber: string): Promise<HostGameState | null> {
   try {
-    const response = await fetch(`/api/room/${roomNumber}`);
-    
+    const response = await fetch(`/api/game/${roomNumber}`);
     if (!response.ok) {
-      if (response.status === 404) {
-        return null;
-      }
-      throw new Error('Failed to load room config from server');
+      return null;
     }
-    
-    const config = await response.json() as RoomConfig;
-    return config;
+
+    const state = await response.json();
+    return "assignmentsByName" in state ? (state as HostGameState) : null;
   } catch (error) {
-    console.error('Error loading room config from server:', error);
+    console.error('Error loading host view from server:', error);
     return null;
   }
 }
 
 /**
- * Sync game state to server
+ * Check whether this device holds a host session for the room
+ */
+export async function checkHostSession(roomNumber: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/game/${roomNumber}/host-session`);
+    if (!response.ok) {
+      return false;
+    }
+    const result = await response.json();
+    return result.isHost === true;
+  } catch (error) {
+    console.error('Error checking host session:', error);
+    return false;
+  }
+}
+
+/**
+ * Exchange the host PIN for a host session cookie on this device
  */
-export async function syncGameToServer(state: GameStateV1): Promise<boolean> {
+export async function startHostSession(roomNumber: string, pin: string): Promise<boolean> {
   try {
-    const response = await fetch(`/api/game/${state.roomNumber}`, {
+    const response = await fetchWithConflictRetry(`/api/game/${roomNumber}/host-session`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(state),
+      body: JSON.stringify({ pin }),
     });
-    
+    return response.ok;
+  } catch (error) {
+    console.error('Error starting host session:', error);
+    return false;
+  }
+}
+
+/**
+ * End the host session on this device; the server stops accepting its cookie
+ */
+export async function endHostSession(roomNumber: string): Promise<boolean> {
+  try {
+    const response = await fetchWithConflictRetry(`/api/game/${roomNumber}/host-session`, {
+      method: 'DELETE',
+    });
+    return response.ok;
+  } catch (error) {
+    console.error('Error ending host session:', error);
+    return false;
+  }
+}
+
+/**
+ * Restart the room on the server with the same players (host only)
+ */
+export async function resetGameOnServer(roomNumber: string): Promise<PublicGameState | null> {
+  try {
+    const response = await fetchWithConflictRetry(`/api/game/${roomNumber}/reset`, {
+      method: 'POST',
+    });
+
     if (!response.ok) {
-      console.error('Failed to sync game to server');
-      return false;
+      throw new Error('Failed to reset game on server');
     }
-    
-    return true;
+
+    const result = await response.json();
+    return toPublicGameState(result.state as HostGameState);
   } catch (error) {
-    console.error('Error syncing to server:', error);
-    return false;
+    console.error('Error resetting game on server:', error);
+    return null;
+  }
+}
+
+/**
+ * Subscribe to live updates for a room
+ * Uses the server-sent event stream and falls back to polling if it fails.
+ * onUpdate receives the event, or null for a polling tick. Returns an unsubscribe function.
+ */
+export function subscribeToGameUpdates(
+  roomNumber: string,
+  onUpdate: (event: GameUpdateEvent | null) => void,
+  pollIntervalMs: number = 1000
+): () => void {
+  let source: EventSource | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let failures = 0;
+
+  const startPolling = () => {
+    source?.close();
+    source = null;
+    if (!pollTimer) {
+      pollTimer = setInterval(() => onUpdate(null), pollIntervalMs);
+    }
+  };
+
+  if (typeof EventSource === "undefined") {
+    startPolling();
+  } else {
+    source = new EventSource(`/api/game/${roomNumber}/events`);
+    source.onopen = () => {
+      failures = 0;
+    };
+    source.onmessage = (message) => {
+      try {
+        onUpdate(JSON.parse(message.data) as GameUpdateEvent);
+      } catch (error) {
+        console.error('Invalid game event:', error);
+      }
+    };
+    source.onerror = () => {
+      // EventSource reconnects by itself; give up after repeated failures or if it closed for good
+      failures++;
+      if (source?.readyState === EventSource.CLOSED || failures >= 3) {
+        startPolling();
+      }
+    };
   }
+
+  return () => {
+    source?.close();
+    if (pollTimer) {
+      clearInterval(pollTimer);
+    }
+  };
 }
 
 /**
- * Load game state from server
+ * Load the mission of the player claimed on this device
  */
-export async function loadGameFromServer(roomNumber: string): Promise<GameStateV1 | null> {
+export async function loadMyMissionFromServer(roomNumber: string): Promise<PlayerView | null> {
   try {
-    const response = await fetch(`/api/game/${roomNumber}`);
-    
+    const response = await fetch(`/api/game/${roomNumber}/me`, {
+      headers: authHeaders(),
+    });
+
     if (!response.ok) {
-      if (response.status === 404) {
+      if (response.status === 401 || response.status === 404) {
         return null;
       }
-      throw new Error('Failed to load game from server');
+      throw new Error('Failed to load mission from server');
     }
-    
-    const state = await response.json() as GameStateV1;
-    return state;
+
+    return await response.json() as PlayerView;
   } catch (error) {
-    console.error('Error loading from server:', error);
+    console.error('Error loading mission from server:', error);
     return null;
   }
 }
 
 /**
  * Mark a player as claimed on server
+ * Returns the player's secret token and their mission
  */
 export async function markClaimedOnServer(
   roomNumber: string,
   playerName: string
-): Promise<GameStateV1 | null> {
+): Promise<{ playerToken: string; view: PlayerView } | null> {
   try {
-    const response = await fetch(`/api/game/${roomNumber}`, {
+    const response = await fetchWithConflictRetry(`/api/game/${roomNumber}`, {
       method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ playerName }),
@@ -444,7 +839,7 @@ export async function markClaimedOnServer(
     }
     
     const result = await response.json();
-    return result.state as GameStateV1;
+    return { playerToken: result.playerToken, view: result.view as PlayerView };
   } catch (error) {
     console.error('Error marking claimed on server:', error);
     return null;
@@ -452,29 +847,33 @@ export async function markClaimedOnServer(
 }
 
 /**
- * Mark a player as claimed (local + server)
+ * Claim a player's mission on this device (server + local)
+ * Returns the player's mission, or null if it could not be claimed
  */
-export async function markClaimed(nameNormalized: string): Promise<GameStateV1 | null> {
+export async function markClaimed(nameNormalized: string): Promise<PlayerView | null> {
   const state = loadActiveGame();
   if (!state) {
     return null;
   }
 
+  // The server hands out the mission only once
+  const result = await markClaimedOnServer(state.roomNumber, nameNormalized);
+  if (!result) {
+    return null;
+  }
+
   // Update local state
-  state.claimedByName[nameNormalized] = true;
-  saveGame(state);
+  saveGame(result.view.game);
   
-  // Store which player claimed on this device
+  // Store which player claimed on this device, and their token
   try {
     localStorage.setItem(CLAIMED_PLAYER_KEY, nameNormalized);
+    localStorage.setItem(PLAYER_TOKEN_KEY, result.playerToken);
   } catch (error) {
     console.error('Error saving claimed player:', error);
   }
   
-  // Sync to server
-  await markClaimedOnServer(state.roomNumber, nameNormalized);
-  
-  return state;
+  return result.view;
 }
 
 /**
@@ -494,6 +893,7 @@ export function getClaimedPlayerName(): string | null {
 export function clearClaimedPlayer(): void {
   try {
     localStorage.removeItem(CLAIMED_PLAYER_KEY);
+    localStorage.removeItem(PLAYER_TOKEN_KEY);
   } catch (error) {
     console.error('Error clearing claimed player:', error);
   }
@@ -501,17 +901,87 @@ export function clearClaimedPlayer(): void {
 
 /**
  * Check if all players have claimed their missions
+ * Players who left or were eliminated before claiming do not hold the game back
+ */
+export function areAllPlayersClaimed(state: GameStateLatest | PublicGameState): boolean {
+  return state.players.every(player => player.status !== "unclaimed");
+}
+
+/**
+ * Record when the last player still holding the game back claimed, left or was eliminated:
+ * that moment starts the rotation clock of games anchored to it (server only)
+ * Call after any change to the players; later changes never move it
+ */
+export function recordAllClaimed(state: GameStateLatest, now: number = Date.now()): void {
+  if (!state.allClaimedAt && areAllPlayersClaimed(state)) {
+    state.allClaimedAt = now;
+  }
+}
+
+/**
+ * When the rotation clock started (the last claim, or game creation for games anchored to it),
+ * pushed back by the time the clock has spent paused
+ */
+export function getRotationEpoch(state: GameStateLatest | PublicGameState): number {
+  return (getRotationStart(state) ?? state.createdAt) + (state.clockPausedMs ?? 0);
+}
+
+// When rotation started before any pause; null while it waits for the last claim.
+// Once started it keeps going when a latecomer joins or a player is revived; games from
+// before the last claim was recorded start once everyone has claimed
+function getRotationStart(state: GameStateLatest | PublicGameState): number | null {
+  const allClaimedAt = state.allClaimedAt ?? (areAllPlayersClaimed(state) ? state.createdAt : null);
+  if (allClaimedAt === null) {
+    return null;
+  }
+  return state.rotationAnchor === "all_claimed" ? allClaimedAt : state.createdAt;
+}
+
+/**
+ * The time the game clock shows: it stands still while paused and once the game is over
+ */
+function getClockTime(state: GameStateLatest | PublicGameState, currentTime: number): number {
+  return Math.min(currentTime, state.clockPausedAt ?? currentTime, state.endedAt ?? currentTime);
+}
+
+/**
+ * How many rotations have happened; 0 until every player has claimed for the first time
+ */
+function getRotationIndex(state: GameStateLatest, currentTime: number): number {
+  if (getRotationStart(state) === null) {
+    return 0;
+  }
+
+  // Once the game is over (or while paused) the clock stops, so everyone stays in the same room
+  const elapsedMs = getClockTime(state, currentTime) - getRotationEpoch(state);
+
+  // Rotate every X minutes (configurable, default: 1 minute)
+  const rotationIntervalMinutes = state.roomRotationIntervalMinutes ?? 1;
+  const rotationInterval = rotationIntervalMinutes * 60 * 1000; // Convert to milliseconds
+  return Math.max(Math.floor(elapsedMs / rotationInterval), 0);
+}
+
+/**
+ * A player's own rotation: their assigned entry first, then every other entry in an order
+ * drawn from the secret seed, so players do not move through the rooms in lockstep
  */
-export function areAllPlayersClaimed(state: GameStateV1): boolean {
-  return state.players.every(player => state.claimedByName[player.nameNormalized] === true);
+function getRotationSchedule(
+  state: GameStateLatest,
+  playerNameNormalized: string,
+  kind: "rooms" | "objects",
+  assigned: string
+): string[] {
+  const seed = `${state.seed ?? `room-${state.roomNumber}`}-rotation-${kind}-${playerNameNormalized}`;
+  return [assigned, ...shuffle(state[kind].filter((item) => item !== assigned), seed)];
 }
 
 /**
  * Get the current room for a player based on time rotation
- * Rooms rotate every X minutes (configurable) once all players have claimed
+ * Rooms rotate every X minutes (configurable) once all players have claimed,
+ * each player through their own schedule starting from their assigned room
  */
 export function getCurrentRoom(
-  state: GameStateV1,
+  state: GameStateLatest,
   playerNameNormalized: string,
   currentTime: number = Date.now()
 ): string {
@@ -520,45 +990,57 @@ export function getCurrentRoom(
     return 'unknown room';
   }
 
-  // If not all players have claimed, return the base room
-  if (!areAllPlayersClaimed(state)) {
-    return assignment.room;
+  // Sudden death: everyone left shares one room and rotation stops
+  if (state.suddenDeathRoom) {
+    return state.suddenDeathRoom;
   }
 
-  // Calculate time since game creation (we'll use this as the base time)
-  const elapsedMs = currentTime - state.createdAt;
-  
-  // Rotate every X minutes (configurable, default: 1 minute)
-  const rotationIntervalMinutes = state.roomRotationIntervalMinutes ?? 1;
-  const rotationInterval = rotationIntervalMinutes * 60 * 1000; // Convert to milliseconds
-  const rotationIndex = Math.floor(elapsedMs / rotationInterval);
-  
-  // Get available rooms (use the shuffled rooms from state)
-  const availableRooms = state.rooms.length > 0 ? state.rooms : [assignment.room];
-  
-  // Rotate through rooms deterministically
-  const roomIndex = rotationIndex % availableRooms.length;
-  return availableRooms[roomIndex];
+  const schedule = getRotationSchedule(state, playerNameNormalized, "rooms", assignment.room);
+  return schedule[getRotationIndex(state, currentTime) % schedule.length];
+}
+
+/**
+ * Get the current object for a player: fixed unless the game rotates objects with the rooms
+ */
+export function getCurrentObject(
+  state: GameStateLatest,
+  playerNameNormalized: string,
+  currentTime: number = Date.now()
+): string {
+  const assignment = state.assignmentsByName[playerNameNormalized];
+  if (!assignment) {
+    return 'unknown object';
+  }
+
+  if (state.suddenDeathObject) {
+    return state.suddenDeathObject;
+  }
+  if (!state.rotateObjects) {
+    return assignment.object;
+  }
+
+  const schedule = getRotationSchedule(state, playerNameNormalized, "objects", assignment.object);
+  return schedule[getRotationIndex(state, currentTime) % schedule.length];
 }
 
 /**
  * Get time remaining until next room change (in milliseconds)
- * Returns null if rotation is not active (not all players claimed)
+ * Returns null if rotation is not active (waiting for the last claim, paused, sudden death, or the game is over)
  */
 export function getTimeUntilNextRoomChange(
-  state: GameStateV1,
+  state: GameStateLatest | PublicGameState,
   currentTime: number = Date.now()
 ): number | null {
-  // If not all players have claimed, rotation is not active
-  if (!areAllPlayersClaimed(state)) {
+  // Until every player has claimed once, rotation is not active
+  if (getRotationStart(state) === null || state.clockPausedAt || state.endedAt || state.suddenDeathRoom) {
     return null;
   }
 
   const rotationIntervalMinutes = state.roomRotationIntervalMinutes ?? 1;
   const rotationInterval = rotationIntervalMinutes * 60 * 1000; // Convert to milliseconds
   
-  // Calculate time since game creation
-  const elapsedMs = currentTime - state.createdAt;
+  // Calculate time since the rotation clock started
+  const elapsedMs = Math.max(currentTime - getRotationEpoch(state), 0);
   
   // Calculate time until next rotation
   const timeUntilNext = rotationInterval - (elapsedMs % rotationInterval);
@@ -566,17 +1048,78 @@ export function getTimeUntilNextRoomChange(
   return timeUntilNext;
 }
 
+/**
+ * Get time remaining until a timed game's deadline (in milliseconds)
+ * Returns null if the game has no time limit, is over or is already in sudden death;
+ * the time left stands still while the clock is paused
+ */
+export function getTimeUntilGameEnd(
+  state: GameStateLatest | PublicGameState,
+  currentTime: number = Date.now()
+): number | null {
+  if (!state.endsAt || state.endedAt || state.suddenDeathRoom) {
+    return null;
+  }
+  return Math.max(state.endsAt - getClockTime(state, currentTime), 0);
+}
+
+/**
+ * Pause the game clock: rooms stop rotating and a timed game's deadline waits (server only)
+ * Returns false if the clock is already paused or the game is over
+ */
+export function pauseClock(
+  state: GameStateLatest,
+  actor: string,
+  now: number = Date.now()
+): boolean {
+  if (state.clockPausedAt || state.endedAt) {
+    return false;
+  }
+  state.clockPausedAt = now;
+  appendGameLog(state, "clock_paused", actor, undefined, now);
+  return true;
+}
+
+/**
+ * Resume the game clock where it stopped: rotation and the deadline are shifted
+ * by the length of the pause (server only)
+ * Returns false if the clock is not paused
+ */
+export function resumeClock(
+  state: GameStateLatest,
+  actor: string,
+  now: number = Date.now()
+): boolean {
+  if (!state.clockPausedAt) {
+    return false;
+  }
+  // Only the part of the pause after rotation started holds rotation back
+  const rotationStart = getRotationStart(state);
+  if (rotationStart !== null) {
+    const rotationPausedMs = Math.max(now - Math.max(state.clockPausedAt, rotationStart), 0);
+    state.clockPausedMs = (state.clockPausedMs ?? 0) + rotationPausedMs;
+  }
+  if (state.endsAt) {
+    state.endsAt += Math.max(now - state.clockPausedAt, 0);
+  }
+  delete state.clockPausedAt;
+  appendGameLog(state, "clock_resumed", actor, undefined, now);
+  return true;
+}
+
 /**
  * Get current assignment with rotating room
  */
 export type CurrentAssignment = {
-  targetName: string;
+  targetName: string; // A team name in team games
+  targetMembers?: Pick<Player, "name" | "nameNormalized">[]; // Team games: who is left on the target team
+  contracts?: Pick<Player, "name" | "nameNormalized">[]; // Most Wanted games: every open contract
   room: string; // Current room (may rotate)
   object: string;
 };
 
 export function getCurrentAssignment(
-  state: GameStateV1,
+  state: GameStateLatest,
   playerNameNormalized: string,
   currentTime: number = Date.now()
 ): CurrentAssignment | null {
@@ -585,26 +1128,747 @@ export function getCurrentAssignment(
     return null;
   }
 
+  const team = getTeamOf(state, playerNameNormalized);
+  const targetTeam = team ? state.teamTargets?.[team] : undefined;
+
   return {
     targetName: assignment.targetName,
+    ...(targetTeam && {
+      targetMembers: getTeamMembers(state, targetTeam)
+        .filter((p) => isAlive(state, p.nameNormalized))
+        .map(({ name, nameNormalized }) => ({ name, nameNormalized })),
+    }),
+    ...(assignment.contracts && {
+      contracts: state.players
+        .filter((p) => assignment.contracts?.includes(p.nameNormalized))
+        .map(({ name, nameNormalized }) => ({ name, nameNormalized })),
+    }),
     room: getCurrentRoom(state, playerNameNormalized, currentTime),
-    object: assignment.object,
+    object: getCurrentObject(state, playerNameNormalized, currentTime),
   };
 }
 
 /**
- * Generate game state from room config (deterministic)
+ * Strip missions and server secrets from a game state
  */
-export function generateGameFromConfig(
-  config: RoomConfig,
-  roomNumber: string
-): GameStateV1 {
-  const seed = `room-${roomNumber}`;
-  
-  // Normalize and deduplicate player names
-  const normalizedMap = new Map<string, string>();
-  const players: Player[] = [];
-  
+export function toPublicGameState(state: GameStateLatest | HostGameState): PublicGameState {
+  const hostState = "hasHostPin" in state ? state : toHostGameState(state);
+  const { assignmentsByName, pendingEliminations, seed, teamTargets, ...publicState } = hostState;
+  return publicState;
+}
+
+/**
+ * Strip server secrets from a game state, keeping every mission (host only)
+ */
+export function toHostGameState(state: GameStateLatest): HostGameState {
+  const {
+    hostPinHash,
+    hostSessionHashes,
+    hostPinFailedAttempts,
+    hostPinLockedUntil,
+    playerTokenHashes,
+    eventLog,
+    ...hostState
+  } = state;
+  return { ...hostState, hasHostPin: Boolean(hostPinHash) };
+}
+
+/**
+ * V1 -> V2: eliminations become a list of records and the audit trail always exists
+ * The old map kept no times, so converted records use the game's creation time
+ */
+function migrateV1ToV2(state: GameStateV1): GameStateV2 {
+  const { hostPin, eliminations, eventLog, ...rest } = state;
+
+  let records: Elimination[] = [];
+  if (Array.isArray(eliminations)) {
+    records = eliminations;
+  } else if (eliminations) {
+    records = Object.entries(eliminations).map(([killer, victim]) => ({
+      killer: killer.startsWith("dead_") ? null : killer,
+      victim,
+      at: state.createdAt,
+    }));
+  }
+
+  // Early rooms stored the PIN in plain text; drop it so it can never reach a client
+  // (the server store hashes it into hostPinHash before migrating)
+  return { ...rest, version: "v2", eliminations: records, eventLog: eventLog || [] };
+}
+
+/**
+ * V2 -> V3: every player gets an explicit status, derived from claims and eliminations
+ */
+function migrateV2ToV3(state: GameStateV2): GameStateV3 {
+  const players = state.players.map((p): Player => {
+    const death = state.eliminations.find((e) => e.victim === p.nameNormalized);
+    if (death) {
+      return { ...p, status: "eliminated", eliminatedBy: death.killer, eliminatedAt: death.at };
+    }
+    return { ...p, status: state.claimedByName[p.nameNormalized] ? "alive" : "unclaimed" };
+  });
+
+  return { ...state, version: "v3", players };
+}
+
+/**
+ * V3 -> V4: kills wait for the victim's confirmation; nothing is pending yet
+ */
+function migrateV3ToV4(state: GameStateV3): GameStateV4 {
+  return { ...state, version: "v4", pendingEliminations: [] };
+}
+
+/**
+ * Upgrade a stored game state, one version at a time, to the latest schema
+ */
+export function migrateGameState(raw: unknown): GameStateLatest {
+  if (!raw || typeof raw !== "object" || !("version" in raw)) {
+    throw new Error("Invalid game state");
+  }
+
+  let state = raw as GameStateV1 | GameStateV2 | GameStateV3 | GameStateV4;
+  if (state.version === "v1") {
+    state = migrateV1ToV2(state);
+  }
+  if (state.version === "v2") {
+    state = migrateV2ToV3(state);
+  }
+  if (state.version === "v3") {
+    state = migrateV3ToV4(state);
+  }
+
+  if (state.version !== GAME_STATE_VERSION) {
+    throw new Error(`Unsupported game state version: ${(state as { version: string }).version}`);
+  }
+  return state;
+}
+
+/**
+ * Check whether a player is still in the game (claimed or not yet)
+ */
+export function isAlive(
+  state: GameStateLatest | PublicGameState,
+  playerNameNormalized: string
+): boolean {
+  const player = state.players.find((p) => p.nameNormalized === playerNameNormalized);
+  return player !== undefined && (player.status === "alive" || player.status === "unclaimed");
+}
+
+/**
+ * Get every player still in the game
+ */
+export function getAlivePlayers(state: GameStateLatest | PublicGameState): Player[] {
+  return state.players.filter((p) => isAlive(state, p.nameNormalized));
+}
+
+/**
+ * Get every player eliminated by a killer, oldest first
+ */
+export function getVictimsOf(
+  state: GameStateLatest | PublicGameState,
+  killerNameNormalized: string
+): string[] {
+  return state.eliminations
+    .filter((e) => e.killer === killerNameNormalized)
+    .map((e) => e.victim);
+}
+
+/**
+ * Get the team of a player, or null outside team games
+ */
+export function getTeamOf(
+  state: GameStateLatest | PublicGameState,
+  playerNameNormalized: string
+): string | null {
+  return state.players.find((p) => p.nameNormalized === playerNameNormalized)?.team ?? null;
+}
+
+/**
+ * Get every member of a team, including those who are out
+ */
+export function getTeamMembers(
+  state: GameStateLatest | PublicGameState,
+  teamNameNormalized: string
+): Player[] {
+  return state.players.filter((p) => p.team === teamNameNormalized);
+}
+
+/**
+ * Check whether a team still has someone in the game
+ */
+export function isTeamAlive(
+  state: GameStateLatest | PublicGameState,
+  teamNameNormalized: string
+): boolean {
+  return getTeamMembers(state, teamNameNormalized).some((p) => isAlive(state, p.nameNormalized));
+}
+
+/**
+ * Check whether a killer may eliminate a player: their own target, in team games
+ * any member of the team their team hunts, in Most Wanted games any open contract (server only)
+ */
+export function isValidTarget(
+  state: GameStateLatest,
+  killerNameNormalized: string,
+  targetNameNormalized: string
+): boolean {
+  const killerTeam = getTeamOf(state, killerNameNormalized);
+  if (killerTeam && state.teamTargets) {
+    return state.teamTargets[killerTeam] === getTeamOf(state, targetNameNormalized);
+  }
+  const assignment = state.assignmentsByName[killerNameNormalized];
+  return assignment !== undefined && isTargetOf(assignment, targetNameNormalized);
+}
+
+// Whether a mission points at a player, through its target or one of its open contracts
+function isTargetOf(assignment: Assignment, targetNameNormalized: string): boolean {
+  return assignment.contracts
+    ? assignment.contracts.includes(targetNameNormalized)
+    : normalizeName(assignment.targetName) === targetNameNormalized;
+}
+
+/**
+ * Find the player still in the game whose target is the given player (server only)
+ * In team games this is the first remaining member of the team hunting the player's team,
+ * in Most Wanted games the first remaining player holding a contract on them
+ */
+export function findHunter(
+  state: GameStateLatest,
+  targetNameNormalized: string
+): string | null {
+  const targetTeam = getTeamOf(state, targetNameNormalized);
+  if (targetTeam && state.teamTargets) {
+    const teamTargets = state.teamTargets;
+    const huntingTeam = Object.keys(teamTargets).find(
+      (team) => team !== targetTeam && teamTargets[team] === targetTeam && isTeamAlive(state, team)
+    );
+    const hunter = huntingTeam
+      ? getTeamMembers(state, huntingTeam).find((p) => isAlive(state, p.nameNormalized))
+      : undefined;
+    return hunter ? hunter.nameNormalized : null;
+  }
+
+  const hunter = state.players.find(
+    (p) =>
+      p.nameNormalized !== targetNameNormalized &&
+      isAlive(state, p.nameNormalized) &&
+      state.assignmentsByName[p.nameNormalized] !== undefined &&
+      isTargetOf(state.assignmentsByName[p.nameNormalized], targetNameNormalized)
+  );
+  return hunter ? hunter.nameNormalized : null;
+}
+
+/**
+ * Hand an eliminated player's mission to their hunter, keeping the target chain closed (server only)
+ */
+export function inheritMission(
+  state: GameStateLatest,
+  hunterNameNormalized: string,
+  victimNameNormalized: string
+): void {
+  const victimAssignment = state.assignmentsByName[victimNameNormalized];
+  if (!victimAssignment) {
+    return;
+  }
+  // The hunter's new target becomes the eliminated player's target
+  state.assignmentsByName[hunterNameNormalized] = {
+    targetName: victimAssignment.targetName,
+    room: victimAssignment.room,
+    object: victimAssignment.object,
+  };
+}
+
+/**
+ * Point a team, and the mission of each of its members, at a new target team (server only)
+ */
+function setTeamTarget(state: GameStateLatest, teamNameNormalized: string, targetTeam: string): void {
+  if (!state.teamTargets) {
+    return;
+  }
+  state.teamTargets[teamNameNormalized] = targetTeam;
+  const targetName = state.teams?.find((t) => t.nameNormalized === targetTeam)?.name ?? targetTeam;
+  for (const member of getTeamMembers(state, teamNameNormalized)) {
+    const assignment = state.assignmentsByName[member.nameNormalized];
+    if (assignment) {
+      state.assignmentsByName[member.nameNormalized] = { ...assignment, targetName };
+    }
+  }
+}
+
+/**
+ * Team games: once nobody is left on a team, the team hunting it takes over its target (server only)
+ */
+function handOffTeamTarget(state: GameStateLatest, teamNameNormalized: string): void {
+  const teamTargets = state.teamTargets;
+  if (!teamTargets || isTeamAlive(state, teamNameNormalized)) {
+    return;
+  }
+  const huntingTeam = Object.keys(teamTargets).find(
+    (team) => team !== teamNameNormalized && teamTargets[team] === teamNameNormalized && isTeamAlive(state, team)
+  );
+  if (huntingTeam) {
+    setTeamTarget(state, huntingTeam, teamTargets[teamNameNormalized]);
+  }
+}
+
+/**
+ * Most Wanted games: draw fresh open contracts for everyone still in the game (server only)
+ * Draws come from the secret seed and the audit trail's length, so each kill reshuffles them
+ */
+function redistributeContracts(state: GameStateLatest): void {
+  const count = state.contractsPerPlayer;
+  if (!count) {
+    return;
+  }
+  const seed = `${state.seed ?? `room-${state.roomNumber}`}-contracts-${state.eventLog.length}`;
+  const alive = getAlivePlayers(state);
+  for (const player of alive) {
+    const assignment = state.assignmentsByName[player.nameNormalized];
+    if (!assignment) {
+      continue;
+    }
+    const contracts = shuffle(
+      alive.filter((p) => p.nameNormalized !== player.nameNormalized),
+      `${seed}-${player.nameNormalized}`
+    ).slice(0, count);
+    state.assignmentsByName[player.nameNormalized] = {
+      ...assignment,
+      targetName: contracts.map((p) => p.name).join(", "),
+      contracts: contracts.map((p) => p.nameNormalized),
+    };
+  }
+}
+
+/**
+ * Append an entry to the game's audit trail (server only)
+ */
+export function appendGameLog(
+  state: GameStateLatest,
+  type: GameLogEntry["type"],
+  actor: string,
+  target?: string,
+  at: number = Date.now()
+): void {
+  const entry: GameLogEntry = { type, at, actor };
+  if (target) {
+    entry.target = target;
+  }
+  state.eventLog.push(entry);
+}
+
+/**
+ * When a pending kill goes through without the victim's answer (null while disputed)
+ */
+export function getPendingExpiry(
+  state: GameStateLatest | HostGameState,
+  pending: PendingElimination
+): number | null {
+  if (pending.status !== "pending") {
+    return null;
+  }
+  const timeoutMinutes = state.eliminationConfirmTimeoutMinutes ?? DEFAULT_ELIMINATION_CONFIRM_TIMEOUT_MINUTES;
+  return pending.reportedAt + timeoutMinutes * 60 * 1000;
+}
+
+/**
+ * Get time remaining until the next pending kill goes through on its own (in milliseconds)
+ * Returns null if no kill is waiting on its victim's answer
+ */
+export function getTimeUntilNextPendingExpiry(
+  state: GameStateLatest | HostGameState,
+  currentTime: number = Date.now()
+): number | null {
+  const expiries = state.pendingEliminations
+    .map((p) => getPendingExpiry(state, p))
+    .filter((expiresAt): expiresAt is number => expiresAt !== null);
+  if (expiries.length === 0) {
+    return null;
+  }
+  return Math.max(Math.min(...expiries) - currentTime, 0);
+}
+
+/**
+ * Eliminate a player: record the kill, update their status and hand their mission
+ * to whoever is hunting them now (server only)
+ */
+export function applyElimination(
+  state: GameStateLatest,
+  killerNameNormalized: string | null,
+  victimNameNormalized: string,
+  actor: string,
+  selfReported: boolean = false,
+  now: number = Date.now()
+): void {
+  const victim = state.players.find((p) => p.nameNormalized === victimNameNormalized);
+  if (!victim) {
+    return;
+  }
+
+  // Usually the killer, unless they were eliminated while the kill was pending
+  const hunter = findHunter(state, victimNameNormalized);
+  const killerAssignment = killerNameNormalized ? getCurrentAssignment(state, killerNameNormalized, now) : null;
+
+  state.eliminations.push({
+    killer: killerNameNormalized,
+    victim: victimNameNormalized,
+    at: now,
+    ...(killerAssignment && { room: killerAssignment.room, object: killerAssignment.object }),
+    ...(selfReported && { selfReported: true }),
+  });
+  victim.status = "eliminated";
+  victim.eliminatedBy = killerNameNormalized;
+  victim.eliminatedAt = now;
+  state.pendingEliminations = state.pendingEliminations.filter((p) => p.victim !== victimNameNormalized);
+  appendGameLog(state, selfReported ? "self_reported_dead" : "eliminated", actor, victimNameNormalized, now);
+
+  if (victim.team) {
+    handOffTeamTarget(state, victim.team);
+  } else if (state.contractsPerPlayer) {
+    redistributeContracts(state);
+  } else if (hunter) {
+    inheritMission(state, hunter, victimNameNormalized);
+  }
+  recordAllClaimed(state, now);
+  detectGameEnd(state, actor, now);
+}
+
+/**
+ * End the game once a single assassin is left, or when someone's inherited target is
+ * themselves: records endedAt and the winner and drops pending kills (server only)
+ * Returns whether the game is over
+ */
+export function detectGameEnd(
+  state: GameStateLatest,
+  actor: string,
+  now: number = Date.now()
+): boolean {
+  if (state.endedAt) {
+    return true;
+  }
+
+  // Team games end when a single team has anyone left
+  if (state.teams) {
+    const aliveTeams = state.teams.filter((t) => isTeamAlive(state, t.nameNormalized));
+    if (aliveTeams.length > 1) {
+      return false;
+    }
+    finishGame(state, aliveTeams.length > 0 ? aliveTeams[0].nameNormalized : null, actor, now);
+    return true;
+  }
+
+  const alive = getAlivePlayers(state);
+  const selfTargeted = alive.find(
+    (p) => normalizeName(state.assignmentsByName[p.nameNormalized]?.targetName ?? "") === p.nameNormalized
+  );
+  if (alive.length > 1 && !selfTargeted) {
+    return false;
+  }
+
+  const winner = selfTargeted ?? alive[0];
+  finishGame(state, winner ? winner.nameNormalized : null, actor, now);
+  return true;
+}
+
+// Record the result: the winning player, or in team games the winning team (null if nobody won)
+function finishGame(state: GameStateLatest, winner: string | null, actor: string, now: number): void {
+  state.endedAt = now;
+  if (state.teams) {
+    state.winner = null;
+    state.winningTeam = winner;
+  } else {
+    state.winner = winner;
+  }
+  state.pendingEliminations = [];
+  appendGameLog(state, "ended", actor, winner ?? undefined, now);
+}
+
+/**
+ * Timed games: once the deadline passes, end the game with the most kills winning,
+ * or start sudden death in a single room with a single object (server only)
+ * Returns whether anything changed
+ */
+export function applyDeadline(
+  state: GameStateLatest,
+  actor: string,
+  now: number = Date.now()
+): boolean {
+  if (!state.endsAt || state.endedAt || state.suddenDeathRoom || state.clockPausedAt || now < state.endsAt) {
+    return false;
+  }
+  appendGameLog(state, "time_up", actor, undefined, now);
+
+  if (state.timeUpMode === "sudden_death") {
+    const seed = `${state.seed ?? `room-${state.roomNumber}`}-sudden-death`;
+    state.suddenDeathRoom = shuffle(state.rooms.length > 0 ? state.rooms : ["unknown room"], `${seed}-room`)[0];
+    state.suddenDeathObject = shuffle(state.objects.length > 0 ? state.objects : ["unknown object"], `${seed}-object`)[0];
+    return true;
+  }
+
+  finishGame(state, getTopScorer(state), actor, now);
+  return true;
+}
+
+// Most kills (shared by the team in team games); a tie goes to whoever is still in,
+// and a tie between players in the same situation leaves no winner
+function getTopScorer(state: GameStateLatest): string | null {
+  const scorers = state.teams
+    ? state.teams.map((t) => t.nameNormalized)
+    : state.players.map((p) => p.nameNormalized);
+  const kills = new Map(scorers.map((scorer) => [scorer, 0]));
+  for (const elimination of state.eliminations) {
+    const scorer = elimination.killer && (state.teams ? getTeamOf(state, elimination.killer) : elimination.killer);
+    if (scorer && kills.has(scorer)) {
+      kills.set(scorer, (kills.get(scorer) ?? 0) + 1);
+    }
+  }
+
+  const stillIn = (scorer: string) => (state.teams ? isTeamAlive(state, scorer) : isAlive(state, scorer));
+  const ranked = scorers
+    .map((scorer) => ({ scorer, kills: kills.get(scorer) ?? 0, stillIn: stillIn(scorer) }))
+    .sort((a, b) => b.kills - a.kills || Number(b.stillIn) - Number(a.stillIn));
+  const [top, runnerUp] = ranked;
+  if (!top || (runnerUp && runnerUp.kills === top.kills && runnerUp.stillIn === top.stillIn)) {
+    return null;
+  }
+  return top.scorer;
+}
+
+// A revived or added player puts an ended game back in play
+function reopenGame(state: GameStateLatest): void {
+  delete state.endedAt;
+  delete state.winner;
+  delete state.winningTeam;
+}
+
+/**
+ * Apply every pending kill whose victim did not answer in time (server only)
+ * Returns the kills that were applied
+ */
+export function applyExpiredEliminations(
+  state: GameStateLatest,
+  now: number = Date.now()
+): PendingElimination[] {
+  const expired = state.pendingEliminations.filter((p) => {
+    const expiresAt = getPendingExpiry(state, p);
+    return expiresAt !== null && expiresAt <= now;
+  });
+
+  for (const pending of expired) {
+    if (isAlive(state, pending.victim)) {
+      applyElimination(state, pending.killer, pending.victim, pending.killer, false, now);
+    }
+  }
+  // Drop anything left over for victims that are already out
+  state.pendingEliminations = state.pendingEliminations.filter((p) => isAlive(state, p.victim));
+  return expired;
+}
+
+/**
+ * Add a latecomer: they are spliced into the target chain after a random alive hunter,
+ * take over that hunter's target with a fresh room and object, and become the hunter's
+ * new target; in team games they join the smallest team instead, and in Most Wanted games
+ * every contract is drawn again (server only).
+ * Returns the new player, or null if the name is taken.
+ */
+export function addPlayer(
+  state: GameStateLatest,
+  name: string,
+  actor: string,
+  now: number = Date.now()
+): Player | null {
+  const nameNormalized = normalizeName(name);
+  if (state.players.some((p) => p.nameNormalized === nameNormalized)) {
+    return null;
+  }
+
+  // Picks come from the secret seed, so they cannot be predicted from the room number
+  const seed = `${state.seed ?? `room-${state.roomNumber}`}-join-${nameNormalized}-${now}`;
+  const hunter = shuffle(getAlivePlayers(state), `${seed}-hunter`)[0];
+  const room = shuffle(state.rooms.length > 0 ? state.rooms : ["unknown room"], `${seed}-room`)[0];
+  const object = shuffle(state.objects.length > 0 ? state.objects : ["unknown object"], `${seed}-object`)[0];
+
+  const player: Player = { name: name.trim(), nameNormalized, status: "unclaimed" };
+  state.players.push(player);
+  state.claimedByName[nameNormalized] = false;
+
+  if (state.teams && state.teamTargets) {
+    // Team games: join the team with the fewest players left; the chain of teams is unchanged
+    const aliveCount = (team: Team) =>
+      getTeamMembers(state, team.nameNormalized).filter((p) => isAlive(state, p.nameNormalized)).length;
+    const team = state.teams
+      .filter((t) => aliveCount(t) > 0)
+      .sort((a, b) => aliveCount(a) - aliveCount(b))[0];
+    if (team) {
+      player.team = team.nameNormalized;
+      state.assignmentsByName[nameNormalized] = { targetName: "", room, object };
+      setTeamTarget(state, team.nameNormalized, state.teamTargets[team.nameNormalized]);
+    }
+  } else if (state.contractsPerPlayer) {
+    reopenGame(state);
+    state.assignmentsByName[nameNormalized] = { targetName: "", room, object };
+    redistributeContracts(state);
+  } else {
+    reopenGame(state);
+    if (hunter) {
+      const hunterAssignment = state.assignmentsByName[hunter.nameNormalized];
+      state.assignmentsByName[nameNormalized] = { targetName: hunterAssignment.targetName, room, object };
+      state.assignmentsByName[hunter.nameNormalized] = { ...hunterAssignment, targetName: player.name };
+    }
+  }
+  appendGameLog(state, "joined", actor, nameNormalized, now);
+  recordAllClaimed(state, now);
+  return player;
+}
+
+/**
+ * Take a player out of the game because they left; their hunter inherits their mission
+ * and nobody is credited with a kill (server only)
+ */
+export function removePlayer(
+  state: GameStateLatest,
+  playerNameNormalized: string,
+  actor: string,
+  now: number = Date.now()
+): void {
+  const player = state.players.find((p) => p.nameNormalized === playerNameNormalized);
+  if (!player) {
+    return;
+  }
+
+  const hunter = findHunter(state, playerNameNormalized);
+  player.status = "left";
+  state.pendingEliminations = state.pendingEliminations.filter(
+    (p) => p.victim !== playerNameNormalized && p.killer !== playerNameNormalized
+  );
+  appendGameLog(state, "left", actor, playerNameNormalized, now);
+
+  if (player.team) {
+    handOffTeamTarget(state, player.team);
+  } else if (state.contractsPerPlayer) {
+    redistributeContracts(state);
+  } else if (hunter) {
+    inheritMission(state, hunter, playerNameNormalized);
+  }
+  recordAllClaimed(state, now);
+  detectGameEnd(state, actor, now);
+}
+
+/**
+ * Bring an eliminated player back, splicing them into the target chain right after
+ * a hunter (their killer if still playing): the player takes over the hunter's mission
+ * and the hunter now targets them; Most Wanted games draw every contract again (server only)
+ */
+export function revivePlayer(
+  state: GameStateLatest,
+  playerNameNormalized: string,
+  actor: string,
+  now: number = Date.now()
+): void {
+  const player = state.players.find((p) => p.nameNormalized === playerNameNormalized);
+  if (!player) {
+    return;
+  }
+
+  const killer = player.eliminatedBy;
+  const hunter =
+    killer && isAlive(state, killer)
+      ? killer
+      : getAlivePlayers(state).find((p) => p.nameNormalized !== playerNameNormalized)?.nameNormalized;
+  const team = player.team;
+  const teamWasOut = team !== undefined && !isTeamAlive(state, team);
+
+  player.status = state.claimedByName[playerNameNormalized] ? "alive" : "unclaimed";
+  delete player.eliminatedBy;
+  delete player.eliminatedAt;
+  reopenGame(state);
+  appendGameLog(state, "revived", actor, playerNameNormalized, now);
+
+  if (team && state.teamTargets) {
+    // A team that was out is spliced back in after the hunter's team, like a single player
+    const hunterTeam = hunter ? getTeamOf(state, hunter) : null;
+    if (teamWasOut && hunterTeam && hunterTeam !== team) {
+      setTeamTarget(state, team, state.teamTargets[hunterTeam]);
+      setTeamTarget(state, hunterTeam, team);
+    } else {
+      setTeamTarget(state, team, state.teamTargets[team]);
+    }
+  } else if (state.contractsPerPlayer) {
+    redistributeContracts(state);
+  } else if (hunter) {
+    const hunterAssignment = state.assignmentsByName[hunter];
+    state.assignmentsByName[playerNameNormalized] = { ...hunterAssignment };
+    state.assignmentsByName[hunter] = { ...hunterAssignment, targetName: player.name };
+  }
+}
+
+/**
+ * Reverse the most recent elimination: drop its record and revive the victim (server only)
+ * Returns the undone record, or null when there is nothing to undo
+ */
+export function undoLastElimination(
+  state: GameStateLatest,
+  actor: string,
+  now: number = Date.now()
+): Elimination | null {
+  const last = state.eliminations[state.eliminations.length - 1];
+  const victim = last && state.players.find((p) => p.nameNormalized === last.victim);
+  if (!last || victim?.status !== "eliminated") {
+    return null;
+  }
+
+  state.eliminations = state.eliminations.slice(0, -1);
+  appendGameLog(state, "elimination_undone", actor, last.victim, now);
+  revivePlayer(state, last.victim, actor, now);
+  return last;
+}
+
+/**
+ * Build the view a single player is allowed to see
+ */
+export function getPlayerView(
+  state: GameStateLatest,
+  playerNameNormalized: string,
+  currentTime: number = Date.now()
+): PlayerView | null {
+  const player = state.players.find((p) => p.nameNormalized === playerNameNormalized);
+  if (!player) {
+    return null;
+  }
+
+  const isEliminated = player.status === "eliminated";
+  const toView = (pending: PendingElimination | undefined): PendingKillView | null =>
+    pending
+      ? { id: pending.id, victim: pending.victim, status: pending.status, expiresAt: getPendingExpiry(state, pending) }
+      : null;
+
+  return {
+    player,
+    assignment: isAlive(state, playerNameNormalized)
+      ? getCurrentAssignment(state, playerNameNormalized, currentTime)
+      : null,
+    isEliminated,
+    pendingReport: toView(state.pendingEliminations.find((p) => p.killer === playerNameNormalized)),
+    pendingAgainstMe: toView(
+      state.pendingEliminations.find((p) => p.victim === playerNameNormalized && p.status === "pending")
+    ),
+    game: toPublicGameState(state),
+  };
+}
+
+/**
+ * Generate game state from room config (deterministic, runs on the server)
+ */
+export function generateGameFromConfig(
+  config: RoomConfig,
+  roomNumber: string
+): GameStateLatest {
+  // Configs created before secret seeds existed fall back to the old room-based seed
+  const seed = config.seed ?? `room-${roomNumber}`;
+  
+  // Normalize and deduplicate player names
+  const normalizedMap = new Map<string, string>();
+  const players: Player[] = [];
+  
   for (const name of config.playerNames) {
     const normalized = normalizeName(name);
     if (!normalizedMap.has(normalized)) {
@@ -612,6 +1876,7 @@ export function generateGameFromConfig(
       players.push({
         name: name.trim(),
         nameNormalized: normalized,
+        status: "unclaimed",
       });
     }
   }
@@ -620,9 +1885,45 @@ export function generateGameFromConfig(
     throw new Error("At least 3 unique players required");
   }
 
+  // Team games: the derangement is over teams, and every member targets their team's target team
+  const teams: Team[] = [];
+  const teamTargets: Record<string, string> = {};
+  if (config.teams && config.teams.length > 0) {
+    for (const teamConfig of config.teams) {
+      const team = { name: teamConfig.name.trim(), nameNormalized: normalizeName(teamConfig.name) };
+      if (!teams.some((t) => t.nameNormalized === team.nameNormalized)) {
+        teams.push(team);
+      }
+      for (const member of teamConfig.members) {
+        const player = players.find((p) => p.nameNormalized === normalizeName(member));
+        if (player) {
+          player.team = team.nameNormalized;
+        }
+      }
+    }
+    if (teams.length < 2) {
+      throw new Error("At least 2 teams required");
+    }
+    if (players.some((p) => !p.team)) {
+      throw new Error("Every player must be on a team");
+    }
+
+    // Two teams simply hunt each other
+    const teamNamesOnly = teams.map((t) => t.name);
+    const teamTargetNames = teams.length === 2
+      ? [teamNamesOnly[1], teamNamesOnly[0]]
+      : derangement(teamNamesOnly, `${seed}-teams`);
+    teams.forEach((team, i) => {
+      teamTargets[team.nameNormalized] = normalizeName(teamTargetNames[i]);
+    });
+  }
+  const teamNameOf = (team: string) => teams.find((t) => t.nameNormalized === team)?.name ?? team;
+
   // Create derangement for targets (deterministic)
   const playerNamesOnly = players.map((p) => p.name);
-  const targetNames = derangement(playerNamesOnly, seed);
+  const targetNames = teams.length > 0
+    ? players.map((p) => teamNameOf(teamTargets[p.team ?? ""]))
+    : derangement(playerNamesOnly, seed);
 
   // Shuffle rooms and objects (deterministic)
   const shuffledRooms = shuffle(
@@ -652,122 +1953,215 @@ export function generateGameFromConfig(
 
   const gameId = `room-${roomNumber}`;
 
-  const state: GameStateV1 = {
-    version: "v1",
+  const state: GameStateLatest = {
+    version: GAME_STATE_VERSION,
     gameId,
     roomNumber,
     createdAt: config.createdAt,
-    hostPin: config.hostPin,
     players,
     rooms: shuffledRooms,
     objects: shuffledObjects,
     assignmentsByName,
     claimedByName: {}, // Start fresh for each device
-    eliminations: {}, // Track who eliminated whom
+    eliminations: [], // Track who eliminated whom
+    eventLog: [],
+    pendingEliminations: [],
     roomRotationIntervalMinutes: config.roomRotationIntervalMinutes ?? 1, // Default: 1 minute
+    eliminationConfirmTimeoutMinutes:
+      config.eliminationConfirmTimeoutMinutes ?? DEFAULT_ELIMINATION_CONFIRM_TIMEOUT_MINUTES,
+    rotationAnchor: config.rotationAnchor ?? "all_claimed",
+    ...(config.rotateObjects && { rotateObjects: true }),
+    ...(config.partyGroup && { partyGroup: config.partyGroup }),
+    ...(teams.length > 0 && { teams, teamTargets }),
+    ...(config.gameDurationMinutes && {
+      endsAt: config.createdAt + config.gameDurationMinutes * 60 * 1000,
+      timeUpMode: config.timeUpMode ?? "most_kills",
+    }),
+    seed: config.seed,
   };
 
-  saveGame(state);
+  // Most Wanted games: the derangement above only settles rooms and objects
+  if (config.contractsPerPlayer && teams.length === 0) {
+    state.contractsPerPlayer = config.contractsPerPlayer;
+    redistributeContracts(state);
+  }
+
   return state;
 }
 
 /**
- * Generate a new game state with room number
+ * Create a new game on the server and make it the active game
  */
-export async function generateGame(
-  playerNames: string[],
-  rooms: string[],
-  objects: string[],
-  hostPin?: string,
-  roomNumber?: string,
-  roomRotationIntervalMinutes?: number
-): Promise<GameStateV1> {
-  if (playerNames.length < 3) {
+export async function generateGame(config: NewRoomConfig): Promise<PublicGameState> {
+  if (config.playerNames.length < 3) {
     throw new Error("At least 3 players required");
   }
 
-  // Generate or use provided room number
-  const finalRoomNumber = roomNumber || generateRoomNumber();
-
-  // Save room configuration
-  const config: RoomConfig = {
-    roomNumber: finalRoomNumber,
-    playerNames,
-    rooms,
-    objects,
-    hostPin,
-    createdAt: Date.now(),
-    roomRotationIntervalMinutes: roomRotationIntervalMinutes ?? 1, // Default: 1 minute
-  };
-  saveRoomConfig(config);
-
-  // Sync room config to server (critical for Vercel serverless)
-  await syncRoomConfigToServer(config);
-
-  // Generate game state deterministically
-  const gameState = generateGameFromConfig(config, finalRoomNumber);
-  
-  // Also sync game state to server
-  await syncGameToServer(gameState);
-  
-  return gameState;
+  // Server assigns the room number and generates assignments
+  const gameState = await createGameOnServer({
+    ...config,
+    roomRotationIntervalMinutes: config.roomRotationIntervalMinutes ?? 1, // Default: 1 minute
+  });
+
+  // Remember the config locally for this host device
+  saveRoomConfig({
+    roomNumber: gameState.roomNumber,
+    playerNames: config.playerNames,
+    rooms: config.rooms,
+    objects: config.objects,
+    createdAt: gameState.createdAt,
+    roomRotationIntervalMinutes: gameState.roomRotationIntervalMinutes,
+    eliminationConfirmTimeoutMinutes: gameState.eliminationConfirmTimeoutMinutes,
+    partyGroup: gameState.partyGroup,
+    teams: config.teams,
+    contractsPerPlayer: gameState.contractsPerPlayer,
+    gameDurationMinutes: config.gameDurationMinutes,
+    timeUpMode: gameState.timeUpMode,
+    rotationAnchor: gameState.rotationAnchor,
+    rotateObjects: gameState.rotateObjects,
+  });
+
+  // Never keep missions in this device's storage, it may be used as the kiosk
+  const publicState = toPublicGameState(gameState);
+  saveGame(publicState);
+
+  return publicState;
 }
 
 /**
- * Eliminate a target and inherit their mission
- * Returns the updated game state with the killer's new mission
+ * Report the elimination of this player's target
+ * The server checks the killer's token and target and keeps the kill pending until the victim
+ * confirms it or the room's timeout passes; reporting again after the timeout applies it
  */
 export async function eliminateTarget(
   killerNameNormalized: string,
   targetNameNormalized: string
-): Promise<GameStateV1 | null> {
+): Promise<PlayerView | null> {
   const state = loadActiveGame();
   if (!state) {
     return null;
   }
 
-  // Check if killer exists and has a mission
-  const killerAssignment = state.assignmentsByName[killerNameNormalized];
-  if (!killerAssignment) {
-    throw new Error("Killer not found in game");
+  const view = await syncEliminationToServer(state.roomNumber, killerNameNormalized, targetNameNormalized);
+  if (view) {
+    saveGame(view.game);
   }
 
-  // Check if target exists and has a mission
-  const targetAssignment = state.assignmentsByName[targetNameNormalized];
-  if (!targetAssignment) {
-    throw new Error("Target not found in game");
+  return view;
+}
+
+/**
+ * Answer a kill reported against the player claimed on this device
+ * Confirming applies it; disputing sends it to the host
+ */
+export async function answerPendingElimination(confirmed: boolean): Promise<PlayerView | null> {
+  const state = loadActiveGame();
+  if (!state) {
+    return null;
   }
 
-  // Verify that the target is actually the killer's target
-  const killerTargetNormalized = normalizeName(killerAssignment.targetName)
-  if (killerTargetNormalized !== targetNameNormalized) {
-    throw new Error("Target is not the killer's assigned target");
+  try {
+    const response = await fetchWithConflictRetry(`/api/game/${state.roomNumber}/eliminate/confirm`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ confirmed }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to answer elimination');
+    }
+
+    const result = await response.json();
+    const view = result.view as PlayerView;
+    saveGame(view.game);
+    return view;
+  } catch (error) {
+    console.error('Error answering elimination:', error);
+    return null;
   }
+}
+
+/**
+ * Approve or reject a pending or disputed kill (requires the host session)
+ */
+export async function resolveEliminationOnServer(
+  roomNumber: string,
+  pendingId: string,
+  approve: boolean
+): Promise<HostGameState | null> {
+  try {
+    const response = await fetchWithConflictRetry(`/api/game/${roomNumber}/admin/resolve`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: pendingId, approve }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to resolve elimination');
+    }
 
-  // Check if target was already eliminated
-  const alreadyEliminated = Object.values(state.eliminations).includes(targetNameNormalized);
-  if (alreadyEliminated) {
-    throw new Error("Target already eliminated");
+    const result = await response.json();
+    return result.state as HostGameState;
+  } catch (error) {
+    console.error('Error resolving elimination:', error);
+    return null;
   }
+}
 
-  // Record the elimination
-  state.eliminations[killerNameNormalized] = targetNameNormalized;
+// Host moderation actions, each served by /api/game/{room}/admin/{action}
+export type ModerationAction = "undo" | "add" | "eliminate" | "revive" | "remove" | "pause" | "resume";
 
-  // Inherit the target's mission
-  // The killer's new target becomes the eliminated target's target
-  state.assignmentsByName[killerNameNormalized] = {
-    targetName: targetAssignment.targetName,
-    room: targetAssignment.room,
-    object: targetAssignment.object,
-  };
+/**
+ * Run a host moderation action (requires the host session)
+ * Every action except undo, pause and resume applies to a single player; "add" takes
+ * the display name, the others the normalized name
+ */
+export async function moderateGameOnServer(
+  roomNumber: string,
+  action: ModerationAction,
+  playerName?: string
+): Promise<HostGameState | null> {
+  try {
+    const response = await fetchWithConflictRetry(`/api/game/${roomNumber}/admin/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(playerName ? { playerName } : {}),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to ${action} on server`);
+    }
 
-  // Save locally
-  saveGame(state);
+    const result = await response.json();
+    return result.state as HostGameState;
+  } catch (error) {
+    console.error('Error running host action:', error);
+    return null;
+  }
+}
 
-  // Sync to server
-  await syncEliminationToServer(state.roomNumber, killerNameNormalized, targetNameNormalized);
+export type PartyHistory = {
+  partyGroup: string;
+  games: ArchivedGame[];
+  profiles: PlayerProfile[];
+};
 
-  return state;
+/**
+ * Load the past games and career profiles of a party group (null if the request failed)
+ */
+export async function loadPartyHistoryFromServer(partyGroup: string): Promise<PartyHistory | null> {
+  try {
+    const response = await fetch(`/api/history/${encodeURIComponent(normalizeName(partyGroup))}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to load history from server');
+    }
+
+    return await response.json() as PartyHistory;
+  } catch (error) {
+    console.error('Error loading history:', error);
+    return null;
+  }
 }
 
 /**
@@ -775,14 +2169,17 @@ export async function eliminateTarget(
  */
 export async function syncEliminationToServer(
   roomNumber: string,
-  killerNameNormalized: string,
+  killerNameNormalized: string | null,
   targetNameNormalized: string
-): Promise<GameStateV1 | null> {
+): Promise<PlayerView | null> {
   try {
-    const response = await fetch(`/api/game/${roomNumber}/eliminate`, {
+    const body = killerNameNormalized
+      ? { killerNameNormalized, targetNameNormalized }
+      : { targetNameNormalized, selfReported: true };
+    const response = await fetchWithConflictRetry(`/api/game/${roomNumber}/eliminate`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ killerNameNormalized, targetNameNormalized }),
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify(body),
     });
     
     if (!response.ok) {
@@ -790,7 +2187,7 @@ export async function syncEliminationToServer(
     }
     
     const result = await response.json();
-    return result.state as GameStateV1;
+    return result.view as PlayerView;
   } catch (error) {
     console.error('Error syncing elimination to server:', error);
     return null;
@@ -0,0 +1,164 @@
+// Long-lived history of finished games, grouped by party group
+// Rooms expire after a day; archived games never do, so a group's career stats survive them
+// Profiles are not stored separately: they are rebuilt from the archived games on every read
+
+import type Redis from 'ioredis'
+import type { GameStateLatest } from '@/lib/game'
+import type { GameStats } from '@/lib/stats'
+import { computeGameStats } from '@/lib/stats'
+import { getRedisClient } from '@/lib/store'
+
+// Only the most recent games of a group are kept (years of weekly games)
+const MAX_ARCHIVED_GAMES = 500
+
+export type ArchivedGame = {
+  id: string // roomNumber-createdAt: a room that is reset starts a new game
+  partyGroup: string
+  roomNumber: string
+  createdAt: number
+  endedAt: number
+  winner: string | null // nameNormalized
+  winnerName: string | null // The winning team's name in team games
+  winningTeam?: string | null // Team games: nameNormalized
+  stats: GameStats
+}
+
+export type PlayerProfile = {
+  name: string // Display name from the player's latest game
+  nameNormalized: string
+  gamesPlayed: number
+  wins: number
+  kills: number
+  lastPlayedAt: number
+}
+
+export interface HistoryStore {
+  /**
+   * Archive a finished game once; returns false if it was already archived.
+   * A game that is reopened and ends again keeps its first result.
+   */
+  archiveGame(game: ArchivedGame): Promise<boolean>
+  /**
+   * Archived games of a group, newest first
+   */
+  listGames(partyGroup: string): Promise<ArchivedGame[]>
+}
+
+class RedisHistoryStore implements HistoryStore {
+  constructor(private redis: Redis) {}
+
+  async archiveGame(game: ArchivedGame): Promise<boolean> {
+    const added = await this.redis.sadd(`history:${game.partyGroup}:ids`, game.id)
+    if (added !== 1) return false
+    await this.redis
+      .multi()
+      .lpush(`history:${game.partyGroup}:games`, JSON.stringify(game))
+      .ltrim(`history:${game.partyGroup}:games`, 0, MAX_ARCHIVED_GAMES - 1)
+      .exec()
+    return true
+  }
+
+  async listGames(partyGroup: string): Promise<ArchivedGame[]> {
+    const games = await this.redis.lrange(`history:${partyGroup}:games`, 0, -1)
+    return games.map((gameJson) => JSON.parse(gameJson) as ArchivedGame)
+  }
+}
+
+/**
+ * In-memory fallback; history is lost when the process restarts
+ */
+class MemoryHistoryStore implements HistoryStore {
+  private ids = new Set<string>()
+  private games = new Map<string, string[]>()
+
+  async archiveGame(game: ArchivedGame): Promise<boolean> {
+    const key = `${game.partyGroup}:${game.id}`
+    if (this.ids.has(key)) return false
+    this.ids.add(key)
+    const games = [JSON.stringify(game), ...(this.games.get(game.partyGroup) ?? [])]
+    this.games.set(game.partyGroup, games.slice(0, MAX_ARCHIVED_GAMES))
+    return true
+  }
+
+  async listGames(partyGroup: string): Promise<ArchivedGame[]> {
+    return (this.games.get(partyGroup) ?? []).map((gameJson) => JSON.parse(gameJson) as ArchivedGame)
+  }
+}
+
+// Shared across route bundles like the game store
+const globalForHistory = globalThis as unknown as { historyStore?: HistoryStore }
+
+/**
+ * Get the shared history store for this process
+ */
+export function getHistoryStore(): HistoryStore {
+  if (globalForHistory.historyStore) return globalForHistory.historyStore
+
+  const redis = getRedisClient()
+  globalForHistory.historyStore = redis ? new RedisHistoryStore(redis) : new MemoryHistoryStore()
+  return globalForHistory.historyStore
+}
+
+/**
+ * Build the archive record of a finished game
+ */
+export function toArchivedGame(state: GameStateLatest & { partyGroup: string; endedAt: number }): ArchivedGame {
+  const winner = state.players.find((p) => p.nameNormalized === state.winner)
+  const winningTeam = state.teams?.find((t) => t.nameNormalized === state.winningTeam)
+  return {
+    id: `${state.roomNumber}-${state.createdAt}`,
+    partyGroup: state.partyGroup,
+    roomNumber: state.roomNumber,
+    createdAt: state.createdAt,
+    endedAt: state.endedAt,
+    winner: winner ? winner.nameNormalized : null,
+    winnerName: winner?.name ?? winningTeam?.name ?? null,
+    ...(state.teams && { winningTeam: winningTeam ? winningTeam.nameNormalized : null }),
+    stats: computeGameStats(state),
+  }
+}
+
+/**
+ * Archive a game that just ended, if it belongs to a party group
+ * History is a side record: failures are logged and never fail the write that ended the game
+ */
+export async function archiveFinishedGame(state: GameStateLatest): Promise<void> {
+  const { partyGroup, endedAt } = state
+  if (!partyGroup || !endedAt) return
+
+  try {
+    await getHistoryStore().archiveGame(toArchivedGame({ ...state, partyGroup, endedAt }))
+  } catch (error) {
+    console.error('Error archiving game:', error)
+  }
+}
+
+/**
+ * Career totals per player across a group's games, most wins first (then most kills)
+ */
+export function buildProfiles(games: ArchivedGame[]): PlayerProfile[] {
+  const profiles = new Map<string, PlayerProfile>()
+
+  // Oldest first, so the latest display name wins
+  for (const game of [...games].reverse()) {
+    for (const player of game.stats.players) {
+      const profile = profiles.get(player.nameNormalized) ?? {
+        name: player.name,
+        nameNormalized: player.nameNormalized,
+        gamesPlayed: 0,
+        wins: 0,
+        kills: 0,
+        lastPlayedAt: 0,
+      }
+      profile.name = player.name
+      profile.gamesPlayed += 1
+      profile.kills += player.kills
+      const wonWithTeam = Boolean(game.winningTeam) && player.team === game.winningTeam
+      if (game.winner === player.nameNormalized || wonWithTeam) profile.wins += 1
+      profile.lastPlayedAt = game.endedAt
+      profiles.set(player.nameNormalized, profile)
+    }
+  }
+
+  return Array.from(profiles.values()).sort((a, b) => b.wins - a.wins || b.kills - a.kills)
+}
@@ -0,0 +1,147 @@
+// Post-game (and live) statistics computed from a room's eliminations
+// Only public data is used, so the same numbers are shown to the host and to players
+
+import type { Elimination, GameStateLatest, PublicGameState } from '@/lib/game'
+import { isAlive } from '@/lib/game'
+
+export type PlayerStats = {
+  name: string
+  nameNormalized: string
+  kills: number
+  survivalMs: number | null // Time from the start until eliminated (or until now / the end), null if they left
+  longestStreak: number // Most kills in a row with nobody else scoring in between
+  team?: string // Team games: team nameNormalized
+}
+
+// Team games only
+export type TeamStats = {
+  name: string
+  nameNormalized: string
+  kills: number
+  membersLeft: number
+  members: number
+}
+
+export type DeadliestEntry = {
+  name: string
+  kills: number
+}
+
+export type GameStats = {
+  players: PlayerStats[] // Most kills first; ties keep the roster order
+  teams: TeamStats[] // Most kills first; empty outside team games
+  totalKills: number
+  durationMs: number // Until the end of the game, or until now while it is running
+  timeToFirstKillMs: number | null
+  deadliestRoom: DeadliestEntry | null
+  deadliestObject: DeadliestEntry | null
+}
+
+// Kills with nobody credited (deaths nobody was hunting) do not count for anyone
+function isCreditedKill(elimination: Elimination): elimination is Elimination & { killer: string } {
+  return elimination.killer !== null
+}
+
+// Scorers are players, or teams in team games
+function getLongestStreaks(scorers: string[]): Record<string, number> {
+  const longest: Record<string, number> = {}
+  let current = 0
+  scorers.forEach((scorer, i) => {
+    current = i > 0 && scorers[i - 1] === scorer ? current + 1 : 1
+    longest[scorer] = Math.max(longest[scorer] ?? 0, current)
+  })
+  return longest
+}
+
+// The entry with the most kills; on a tie, the one that got there first
+function getDeadliest(values: (string | undefined)[]): DeadliestEntry | null {
+  const counts = new Map<string, number>()
+  let best: DeadliestEntry | null = null
+  for (const value of values) {
+    if (!value) continue
+    const kills = (counts.get(value) ?? 0) + 1
+    counts.set(value, kills)
+    if (!best || kills > best.kills) {
+      best = { name: value, kills }
+    }
+  }
+  return best
+}
+
+/**
+ * Compute kills, survival times, streaks and the deadliest room and object of a game
+ */
+export function computeGameStats(
+  state: GameStateLatest | PublicGameState,
+  now: number = Date.now()
+): GameStats {
+  const start = state.createdAt
+  const end = state.endedAt ?? now
+  const kills = state.eliminations.filter(isCreditedKill)
+
+  // In team games every member shares the team's kills
+  const teamOf = new Map(state.players.map((p) => [p.nameNormalized, p.team]))
+  const scorers = kills.map((k) => teamOf.get(k.killer) ?? k.killer)
+  const countFor = (scorer: string) => scorers.filter((s) => s === scorer).length
+  const streaks = getLongestStreaks(scorers)
+
+  const players = state.players
+    .map((player): PlayerStats => {
+      let survivalMs: number | null = end - start
+      if (player.status === 'eliminated') {
+        survivalMs = (player.eliminatedAt ?? end) - start
+      } else if (player.status === 'left') {
+        survivalMs = null
+      }
+      const scorer = player.team ?? player.nameNormalized
+      return {
+        name: player.name,
+        nameNormalized: player.nameNormalized,
+        kills: countFor(scorer),
+        survivalMs,
+        longestStreak: streaks[scorer] ?? 0,
+        ...(player.team && { team: player.team }),
+      }
+    })
+    .sort((a, b) => b.kills - a.kills)
+
+  const teams = (state.teams ?? [])
+    .map((team): TeamStats => {
+      const members = state.players.filter((p) => p.team === team.nameNormalized)
+      return {
+        name: team.name,
+        nameNormalized: team.nameNormalized,
+        kills: countFor(team.nameNormalized),
+        membersLeft: members.filter((p) => isAlive(state, p.nameNormalized)).length,
+        members: members.length,
+      }
+    })
+    .sort((a, b) => b.kills - a.kills)
+
+  return {
+    players,
+    teams,
+    totalKills: kills.length,
+    durationMs: end - start,
+    timeToFirstKillMs: kills.length > 0 ? kills[0].at - start : null,
+    deadliestRoom: getDeadliest(kills.map((k) => k.room)),
+    deadliestObject: getDeadliest(kills.map((k) => k.object)),
+  }
+}
+
+/**
+ * Format a duration as "1h 05m", "12m 30s" or "45s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  if (hours > 0) {
+    return `${hours}h ${String(minutes).padStart(2, '0')}m`
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${String(seconds).padStart(2, '0')}s`
+  }
+  return `${seconds}s`
+}
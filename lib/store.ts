@@ -0,0 +1,196 @@
+// Server-side storage for game state and room configs
+// Uses Redis when REDIS_URL is set, otherwise a process-wide in-memory store
+
+import Redis from 'ioredis'
+import type { GameStateLatest, RoomConfig } from '@/lib/game'
+import { migrateGameState } from '@/lib/game'
+import { hashPin } from '@/lib/auth'
+
+// Rooms expire after 24 hours
+const ROOM_TTL_SECONDS = 86400
+
+// Parse a stored game, upgrading rooms saved with an older schema
+// The upgraded shape is written back on the room's next save
+function parseGame(stateJson: string): GameStateLatest {
+  const raw = JSON.parse(stateJson)
+  // Early rooms kept the host PIN in plain text; hash it before the migration drops it,
+  // so their hosts can still sign in
+  if (raw?.version === 'v1' && typeof raw.hostPin === 'string' && raw.hostPin && !raw.hostPinHash) {
+    raw.hostPinHash = hashPin(raw.hostPin)
+  }
+  return migrateGameState(raw)
+}
+
+// Write the new state only if the stored revision still matches the one the caller read
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current then return 0 end
+local revision = cjson.decode(current).revision or 0
+if revision ~= tonumber(ARGV[1]) then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+return 1
+`
+
+export interface GameStore {
+  getGame(roomNumber: string): Promise<GameStateLatest | null>
+  setGame(roomNumber: string, state: GameStateLatest): Promise<void>
+  /**
+   * Save a state read at expectedRevision, bumping its revision.
+   * Returns false (and writes nothing) if another write happened in between.
+   */
+  compareAndSetGame(roomNumber: string, expectedRevision: number, state: GameStateLatest): Promise<boolean>
+  deleteGame(roomNumber: string): Promise<void>
+  getRoomConfig(roomNumber: string): Promise<RoomConfig | null>
+  setRoomConfig(roomNumber: string, config: RoomConfig): Promise<void>
+  /**
+   * Atomically reserve a room number by saving its config only if none exists.
+   * Returns false if the room number is already taken.
+   */
+  createRoomConfig(roomNumber: string, config: RoomConfig): Promise<boolean>
+  deleteRoomConfig(roomNumber: string): Promise<void>
+}
+
+class RedisGameStore implements GameStore {
+  constructor(private redis: Redis) {}
+
+  async getGame(roomNumber: string): Promise<GameStateLatest | null> {
+    const stateJson = await this.redis.get(`game:${roomNumber}`)
+    return stateJson ? parseGame(stateJson) : null
+  }
+
+  async setGame(roomNumber: string, state: GameStateLatest): Promise<void> {
+    await this.redis.set(`game:${roomNumber}`, JSON.stringify(state), 'EX', ROOM_TTL_SECONDS)
+  }
+
+  async compareAndSetGame(roomNumber: string, expectedRevision: number, state: GameStateLatest): Promise<boolean> {
+    const next = { ...state, revision: expectedRevision + 1 }
+    const result = await this.redis.eval(
+      COMPARE_AND_SET_SCRIPT,
+      1,
+      `game:${roomNumber}`,
+      expectedRevision,
+      JSON.stringify(next),
+      ROOM_TTL_SECONDS
+    )
+    if (result !== 1) return false
+    state.revision = next.revision
+    return true
+  }
+
+  async deleteGame(roomNumber: string): Promise<void> {
+    await this.redis.del(`game:${roomNumber}`)
+  }
+
+  async getRoomConfig(roomNumber: string): Promise<RoomConfig | null> {
+    const configJson = await this.redis.get(`room:${roomNumber}`)
+    return configJson ? (JSON.parse(configJson) as RoomConfig) : null
+  }
+
+  async setRoomConfig(roomNumber: string, config: RoomConfig): Promise<void> {
+    await this.redis.set(`room:${roomNumber}`, JSON.stringify(config), 'EX', ROOM_TTL_SECONDS)
+  }
+
+  async createRoomConfig(roomNumber: string, config: RoomConfig): Promise<boolean> {
+    const result = await this.redis.set(`room:${roomNumber}`, JSON.stringify(config), 'EX', ROOM_TTL_SECONDS, 'NX')
+    return result === 'OK'
+  }
+
+  async deleteRoomConfig(roomNumber: string): Promise<void> {
+    await this.redis.del(`room:${roomNumber}`)
+  }
+}
+
+/**
+ * In-memory fallback (only works for single instance, not Vercel production)
+ * Values are stored as JSON so callers never share object references
+ */
+class MemoryGameStore implements GameStore {
+  private games = new Map<string, string>()
+  private roomConfigs = new Map<string, string>()
+
+  async getGame(roomNumber: string): Promise<GameStateLatest | null> {
+    const stateJson = this.games.get(roomNumber)
+    return stateJson ? parseGame(stateJson) : null
+  }
+
+  async setGame(roomNumber: string, state: GameStateLatest): Promise<void> {
+    this.games.set(roomNumber, JSON.stringify(state))
+  }
+
+  async compareAndSetGame(roomNumber: string, expectedRevision: number, state: GameStateLatest): Promise<boolean> {
+    const stateJson = this.games.get(roomNumber)
+    if (!stateJson) return false
+    const current = JSON.parse(stateJson) as GameStateLatest
+    if ((current.revision ?? 0) !== expectedRevision) return false
+    state.revision = expectedRevision + 1
+    this.games.set(roomNumber, JSON.stringify(state))
+    return true
+  }
+
+  async deleteGame(roomNumber: string): Promise<void> {
+    this.games.delete(roomNumber)
+  }
+
+  async getRoomConfig(roomNumber: string): Promise<RoomConfig | null> {
+    const configJson = this.roomConfigs.get(roomNumber)
+    return configJson ? (JSON.parse(configJson) as RoomConfig) : null
+  }
+
+  async setRoomConfig(roomNumber: string, config: RoomConfig): Promise<void> {
+    this.roomConfigs.set(roomNumber, JSON.stringify(config))
+  }
+
+  async createRoomConfig(roomNumber: string, config: RoomConfig): Promise<boolean> {
+    if (this.roomConfigs.has(roomNumber)) return false
+    this.roomConfigs.set(roomNumber, JSON.stringify(config))
+    return true
+  }
+
+  async deleteRoomConfig(roomNumber: string): Promise<void> {
+    this.roomConfigs.delete(roomNumber)
+  }
+}
+
+// Keep the store on globalThis so every route bundle (and dev hot reloads) share one instance
+const globalForStore = globalThis as unknown as { gameStore?: GameStore; redis?: Redis | null }
+
+function createRedis(redisUrl: string): Redis | null {
+  try {
+    return new Redis(redisUrl, {
+      maxRetriesPerRequest: 3,
+      retryStrategy: (times: number) => {
+        const delay = Math.min(times * 50, 2000)
+        return delay
+      },
+    })
+  } catch (e) {
+    console.error('Failed to connect to Redis:', e)
+    return null
+  }
+}
+
+/**
+ * Get the shared Redis client, or null when running without Redis
+ */
+export function getRedisClient(): Redis | null {
+  if (globalForStore.redis !== undefined) return globalForStore.redis
+
+  const redisUrl = process.env.REDIS_URL
+  if (!redisUrl) {
+    console.log('REDIS_URL not set, using in-memory storage')
+  }
+
+  globalForStore.redis = redisUrl ? createRedis(redisUrl) : null
+  return globalForStore.redis
+}
+
+/**
+ * Get the shared game store for this process
+ */
+export function getGameStore(): GameStore {
+  if (globalForStore.gameStore) return globalForStore.gameStore
+
+  const redis = getRedisClient()
+  globalForStore.gameStore = redis ? new RedisGameStore(redis) : new MemoryGameStore()
+  return globalForStore.gameStore
+}
@@ -7,6 +7,7 @@ export const translations = {
       instructions: 'Instructions',
       hostSetup: 'Host Setup',
       kioskMode: 'Kiosk Mode',
+      history: 'History',
     },
     // Instructions page
     instructions: {
@@ -38,7 +39,16 @@ export const translations = {
       eliminateTarget: 'I Eliminated My Target',
       eliminationSuccess: 'Mission Updated! You now have your target\'s mission.',
       eliminationError: 'Error updating mission. Please try again.',
+      eliminationPending: 'Kill reported. Waiting for your target to confirm...',
+      eliminationDisputed: 'Your target disputed the kill. The host will decide.',
+      confirmEliminationTitle: 'Were you just eliminated by your assassin?',
+      confirmEliminationYes: 'Yes, I was eliminated',
+      confirmEliminationNo: 'No, that did not happen',
+      eliminationDisputeSent: 'Dispute sent to the host.',
+      whoDidYouEliminate: 'Who did you eliminate?',
+      cancel: 'Cancel',
       roomChangeIn: 'Room changes in',
+      roomAndObjectChangeIn: 'Room and object change in',
       seconds: 'seconds',
       imDead: "I'm Dead",
       markedAsDead: 'You have been marked as dead.',
@@ -61,21 +71,70 @@ export const translations = {
       linkCopied: '✓ Link Copied!',
       gameId: 'Game ID',
       claimed: 'Claimed',
+      alive: 'Alive',
       players: 'Players',
       claimedBadge: '✓ Claimed',
       eliminatedBadge: 'Eliminated',
+      killsLabel: 'Kills',
       kioskMode: 'Kiosk Mode',
       copyKioskLink: 'Copy Kiosk Link',
       resetGame: 'Reset Game',
+      endHostSession: 'End Host Session',
+      endHostSessionConfirm: 'End the host session on this device? The host PIN is needed to open the host view again.',
+      endHostSessionNoPinConfirm: 'This game has no host PIN: once the session ends, nobody can host it again. End the host session?',
+      endHostSessionError: 'Could not end the host session',
       playerNamesLabel: 'Player Names (one per line, minimum 3)',
       roomsLabel: 'Rooms (one per line)',
       objectsLabel: 'Objects (one per line)',
       roomRotationIntervalLabel: 'Room Rotation Interval (minutes)',
       roomRotationIntervalDescription: 'How often rooms change once all players have claimed (default: 1 minute)',
+      confirmTimeoutLabel: 'Kill Confirmation Timeout (minutes)',
+      confirmTimeoutDescription: 'Reported kills go through if the victim does not answer in time (default: 5 minutes)',
+      confirmTimeoutMin: 'Kill confirmation timeout must be at least 1 minute',
+      gameModeLabel: 'Game Mode',
+      gameModeClassic: 'Classic',
+      gameModeTeams: 'Teams',
+      gameModeMostWanted: 'Most Wanted',
+      classicModeDescription: 'Every player hunts a single target; eliminating them hands you their target',
+      mostWantedDescription: 'Every player holds open contracts on several players and any of them counts; contracts are drawn again after each kill',
+      contractsLabel: 'Contracts per Player',
+      contractsRange: 'Contracts per player must be between 1 and 10',
+      teamModeDescription: 'Teams hunt other teams; any member can eliminate any member of the target team and the whole team shares the kill',
+      teamPlaceholder: 'Team name',
+      everyPlayerNeedsTeam: 'Every player needs a team in team mode',
+      atLeast2Teams: 'Team mode needs at least 2 teams',
+      partyGroupLabel: 'Party Group (optional)',
+      partyGroupDescription: 'Finished games count towards this group\'s history and career stats',
+      rotationAnchorCreated: 'Start rotating when the game is created',
+      rotationAnchorAllClaimed: 'Start rotating once everyone has claimed',
+      rotateObjectsLabel: 'Rotate objects too',
+      pauseClock: 'Pause Clock',
+      resumeClock: 'Resume Clock',
+      gameDurationLabel: 'Game Duration (minutes)',
+      gameDurationDescription: 'Optional: leave empty for a game without a time limit',
+      gameDurationMin: 'Game duration must be at least 1 minute',
+      timeUpModeLabel: 'When Time Runs Out',
+      timeUpMostKills: 'Most kills wins',
+      timeUpSuddenDeath: 'Sudden death in a single room',
+      disputedEliminations: 'Disputed Eliminations',
+      undoLastElimination: 'Undo Last Elimination',
+      eliminatePlayer: 'Eliminate',
+      revivePlayer: 'Revive',
+      removePlayer: 'Remove',
+      removeConfirm: 'Remove this player from the game? Their hunter takes over their mission.',
+      leftBadge: 'Left',
+      addPlayer: 'Add Player',
+      addPlayerPlaceholder: 'Latecomer name',
+      moderationError: 'Could not update the game. Only the host can do this.',
+      approveElimination: 'Approve',
+      rejectElimination: 'Reject',
+      roomNumberDigitsLabel: 'Room Number Length (digits)',
+      roomNumberDigitsDescription: 'Longer room numbers are harder to guess',
       hostPinLabel: 'Host PIN (optional, 4 digits - protects host access from kiosk)',
       generateGame: 'Generate Game',
       atLeast3Players: 'At least 3 players are required',
       resetConfirm: 'Are you sure you want to reset the game? This cannot be undone.',
+      resetError: 'Could not reset the game. Only the host can do this.',
     },
     // Kiosk page
     kiosk: {
@@ -86,6 +145,8 @@ export const translations = {
       allClaimed: 'All players have claimed their missions!',
       privacyShield: 'Privacy Shield',
       returnToHost: 'Return to Host',
+      endHostSession: 'End Host Session',
+      endHostSessionConfirm: 'End the host session on this device? The host PIN is needed to moderate from here again.',
       tapToContinue: 'Tap to continue',
       doNotSay: 'Do NOT say it out loud.',
       yourTarget: 'Your Target',
@@ -107,6 +168,57 @@ export const translations = {
       roomNotFound: 'Room not found. Please check the room number.',
       invalidRoom: 'Please enter a valid room number',
     },
+    // End-of-game screen
+    results: {
+      gameOver: 'Game Over',
+      winner: 'Last assassin standing',
+      winningTeam: 'Last team standing',
+      noWinner: 'Nobody survived',
+      timeUp: 'Time\'s up',
+      mostKills: 'Most kills',
+      tie: 'It\'s a tie',
+    },
+    // Game clock (timed games)
+    clock: {
+      gameEndsIn: 'Game ends in',
+      paused: 'The game clock is paused',
+      suddenDeath: 'Sudden death!',
+      suddenDeathDescription: 'Everyone left now shares one room and one object:',
+    },
+    // Game statistics
+    stats: {
+      title: 'Game Stats',
+      leaderboard: 'Kill Leaderboard',
+      player: 'Player',
+      kills: 'Kills',
+      longestStreak: 'Best streak',
+      survived: 'Survived',
+      deadliestRoom: 'Deadliest room',
+      deadliestObject: 'Deadliest object',
+      firstKill: 'First kill after',
+      teamScoreboard: 'Team Scoreboard',
+      team: 'Team',
+      membersLeft: 'Still in',
+    },
+    // History page
+    history: {
+      title: 'Party History',
+      groupLabel: 'Party group',
+      load: 'Show History',
+      loading: 'Loading...',
+      loadError: 'Could not load the history. Please try again.',
+      noGames: 'No finished games for this group yet.',
+      careers: 'Career Stats',
+      player: 'Player',
+      gamesPlayed: 'Games',
+      wins: 'Wins',
+      kills: 'Kills',
+      pastGames: 'Past Games',
+      room: 'Room',
+      winner: 'Winner',
+      players: 'players',
+      noWinner: 'No winner',
+    },
   },
   es: {
     // Navigation
@@ -114,6 +226,7 @@ export const translations = {
       instructions: 'Instrucciones',
       hostSetup: 'Configuración del Host',
       kioskMode: 'Modo Kiosco',
+      history: 'Historial',
     },
     // Instructions page
     instructions: {
@@ -145,7 +258,16 @@ export const translations = {
       eliminateTarget: 'Eliminé a Mi Objetivo',
       eliminationSuccess: '¡Misión Actualizada! Ahora tienes la misión de tu objetivo.',
       eliminationError: 'Error al actualizar la misión. Por favor intenta de nuevo.',
+      eliminationPending: 'Eliminación reportada. Esperando a que tu objetivo la confirme...',
+      eliminationDisputed: 'Tu objetivo disputó la eliminación. El host decidirá.',
+      confirmEliminationTitle: '¿Acabas de ser eliminado por tu asesino?',
+      confirmEliminationYes: 'Sí, fui eliminado',
+      confirmEliminationNo: 'No, eso no pasó',
+      eliminationDisputeSent: 'Disputa enviada al host.',
+      whoDidYouEliminate: '¿A quién eliminaste?',
+      cancel: 'Cancelar',
       roomChangeIn: 'La habitación cambia en',
+      roomAndObjectChangeIn: 'La habitación y el objeto cambian en',
       seconds: 'segundos',
       imDead: 'Estoy Muerto',
       markedAsDead: 'Has sido marcado como muerto.',
@@ -168,21 +290,70 @@ export const translations = {
       linkCopied: '✓ ¡Enlace Copiado!',
       gameId: 'ID del Juego',
       claimed: 'Reclamados',
+      alive: 'Vivos',
       players: 'Jugadores',
       claimedBadge: '✓ Reclamado',
       eliminatedBadge: 'Eliminado',
+      killsLabel: 'Eliminaciones',
       kioskMode: 'Modo Kiosco',
       copyKioskLink: 'Copiar Enlace del Kiosco',
       resetGame: 'Reiniciar Juego',
+      endHostSession: 'Cerrar Sesión de Host',
+      endHostSessionConfirm: '¿Cerrar la sesión de host en este dispositivo? Se necesitará el PIN de host para volver a abrir la vista de host.',
+      endHostSessionNoPinConfirm: 'Este juego no tiene PIN de host: al cerrar la sesión nadie podrá volver a ser host. ¿Cerrar la sesión de host?',
+      endHostSessionError: 'No se pudo cerrar la sesión de host',
       playerNamesLabel: 'Nombres de Jugadores (uno por línea, mínimo 3)',
       roomsLabel: 'Habitaciones (una por línea)',
       objectsLabel: 'Objetos (uno por línea)',
       roomRotationIntervalLabel: 'Intervalo de Rotación de Habitaciones (minutos)',
       roomRotationIntervalDescription: 'Con qué frecuencia cambian las habitaciones una vez que todos los jugadores han reclamado (por defecto: 1 minuto)',
+      confirmTimeoutLabel: 'Tiempo para Confirmar Eliminaciones (minutos)',
+      confirmTimeoutDescription: 'Las eliminaciones reportadas se aplican si la víctima no responde a tiempo (por defecto: 5 minutos)',
+      confirmTimeoutMin: 'El tiempo para confirmar eliminaciones debe ser de al menos 1 minuto',
+      gameModeLabel: 'Modo de Juego',
+      gameModeClassic: 'Clásico',
+      gameModeTeams: 'Equipos',
+      gameModeMostWanted: 'Los Más Buscados',
+      classicModeDescription: 'Cada jugador caza a un único objetivo; al eliminarlo heredas su objetivo',
+      mostWantedDescription: 'Cada jugador tiene contratos abiertos sobre varios jugadores y cualquiera de ellos cuenta; los contratos se reparten de nuevo tras cada eliminación',
+      contractsLabel: 'Contratos por Jugador',
+      contractsRange: 'Los contratos por jugador deben estar entre 1 y 10',
+      teamModeDescription: 'Los equipos cazan a otros equipos; cualquier miembro puede eliminar a cualquier miembro del equipo objetivo y todo el equipo comparte la eliminación',
+      teamPlaceholder: 'Nombre del equipo',
+      everyPlayerNeedsTeam: 'En el modo por equipos cada jugador necesita un equipo',
+      atLeast2Teams: 'El modo por equipos necesita al menos 2 equipos',
+      partyGroupLabel: 'Grupo (opcional)',
+      partyGroupDescription: 'Los juegos terminados cuentan para el historial y las estadísticas de este grupo',
+      rotationAnchorCreated: 'Empezar a rotar al crear el juego',
+      rotationAnchorAllClaimed: 'Empezar a rotar cuando todos hayan reclamado',
+      rotateObjectsLabel: 'Rotar también los objetos',
+      pauseClock: 'Pausar Reloj',
+      resumeClock: 'Reanudar Reloj',
+      gameDurationLabel: 'Duración del Juego (minutos)',
+      gameDurationDescription: 'Opcional: déjalo vacío para un juego sin límite de tiempo',
+      gameDurationMin: 'La duración del juego debe ser de al menos 1 minuto',
+      timeUpModeLabel: 'Cuando se Acabe el Tiempo',
+      timeUpMostKills: 'Gana quien tenga más eliminaciones',
+      timeUpSuddenDeath: 'Muerte súbita en una sola habitación',
+      disputedEliminations: 'Eliminaciones Disputadas',
+      undoLastElimination: 'Deshacer Última Eliminación',
+      eliminatePlayer: 'Eliminar',
+      revivePlayer: 'Revivir',
+      removePlayer: 'Quitar',
+      removeConfirm: '¿Quitar a este jugador del juego? Su cazador se queda con su misión.',
+      leftBadge: 'Se fue',
+      addPlayer: 'Agregar Jugador',
+      addPlayerPlaceholder: 'Nombre del recién llegado',
+      moderationError: 'No se pudo actualizar el juego. Solo el host puede hacerlo.',
+      approveElimination: 'Aprobar',
+      rejectElimination: 'Rechazar',
+      roomNumberDigitsLabel: 'Longitud del Número de Sala (dígitos)',
+      roomNumberDigitsDescription: 'Los números de sala más largos son más difíciles de adivinar',
       hostPinLabel: 'PIN del Host (opcional, 4 dígitos - protege el acceso del host desde el kiosco)',
       generateGame: 'Generar Juego',
       atLeast3Players: 'Se requieren al menos 3 jugadores',
       resetConfirm: '¿Estás seguro de que quieres reiniciar el juego? Esto no se puede deshacer.',
+      resetError: 'No se pudo reiniciar el juego. Solo el host puede hacerlo.',
     },
     // Kiosk page
     kiosk: {
@@ -193,6 +364,8 @@ export const translations = {
       allClaimed: '¡Todos los jugadores han reclamado sus misiones!',
       privacyShield: 'Escudo de Privacidad',
       returnToHost: 'Volver al Host',
+      endHostSession: 'Cerrar Sesión de Host',
+      endHostSessionConfirm: '¿Cerrar la sesión de host en este dispositivo? Se necesitará el PIN de host para moderar desde aquí otra vez.',
       tapToContinue: 'Toca para continuar',
       doNotSay: 'NO lo digas en voz alta.',
       yourTarget: 'Tu Objetivo',
@@ -214,6 +387,57 @@ export const translations = {
       roomNotFound: 'Sala no encontrada. Por favor verifica el número de sala.',
       invalidRoom: 'Por favor ingresa un número de sala válido',
     },
+    // End-of-game screen
+    results: {
+      gameOver: 'Fin del Juego',
+      winner: 'Último asesino en pie',
+      winningTeam: 'Último equipo en pie',
+      noWinner: 'Nadie sobrevivió',
+      timeUp: 'Se acabó el tiempo',
+      mostKills: 'Más eliminaciones',
+      tie: 'Es un empate',
+    },
+    // Game clock (timed games)
+    clock: {
+      gameEndsIn: 'El juego termina en',
+      paused: 'El reloj del juego está en pausa',
+      suddenDeath: '¡Muerte súbita!',
+      suddenDeathDescription: 'Todos los que quedan comparten ahora una habitación y un objeto:',
+    },
+    // Game statistics
+    stats: {
+      title: 'Estadísticas',
+      leaderboard: 'Tabla de Eliminaciones',
+      player: 'Jugador',
+      kills: 'Eliminaciones',
+      longestStreak: 'Mejor racha',
+      survived: 'Sobrevivió',
+      deadliestRoom: 'Habitación más letal',
+      deadliestObject: 'Objeto más letal',
+      firstKill: 'Primera eliminación a los',
+      teamScoreboard: 'Marcador por Equipos',
+      team: 'Equipo',
+      membersLeft: 'Siguen en juego',
+    },
+    // History page
+    history: {
+      title: 'Historial del Grupo',
+      groupLabel: 'Grupo',
+      load: 'Ver Historial',
+      loading: 'Cargando...',
+      loadError: 'No se pudo cargar el historial. Intenta de nuevo.',
+      noGames: 'Este grupo todavía no tiene juegos terminados.',
+      careers: 'Estadísticas de Carrera',
+      player: 'Jugador',
+      gamesPlayed: 'Juegos',
+      wins: 'Victorias',
+      kills: 'Eliminaciones',
+      pastGames: 'Juegos Anteriores',
+      room: 'Sala',
+      winner: 'Ganador',
+      players: 'jugadores',
+      noWinner: 'Sin ganador',
+    },
   },
 } as const
 
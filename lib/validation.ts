@@ -0,0 +1,350 @@
+// Runtime checks for API request bodies
+// Each validator returns either the cleaned-up value or every problem found, keyed by field
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { NewRoomConfig, RoomNumberDigits, RotationAnchor, TeamConfig, TimeUpMode } from '@/lib/game'
+import { normalizeName } from '@/lib/game'
+
+export const MAX_NAME_LENGTH = 40
+export const MAX_PLAYERS = 100
+export const MIN_PLAYERS = 3
+// Applies to rooms and objects; each entry is limited like a name
+export const MAX_LIST_ITEMS = 100
+export const MAX_ROTATION_INTERVAL_MINUTES = 24 * 60
+export const MAX_CONFIRM_TIMEOUT_MINUTES = 60
+export const MAX_CONTRACTS_PER_PLAYER = 10
+export const MAX_GAME_DURATION_MINUTES = 24 * 60
+
+const PIN_PATTERN = /^\d{4}$/
+const ROOM_NUMBER_DIGITS: RoomNumberDigits[] = [4, 5, 6]
+const TIME_UP_MODES: TimeUpMode[] = ['most_kills', 'sudden_death']
+const ROTATION_ANCHORS: RotationAnchor[] = ['created', 'all_claimed']
+
+export type ValidationIssue = {
+  field: string
+  message: string
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] }
+
+type Body = Record<string, unknown>
+
+/**
+ * Read a JSON body, or undefined when it is missing or not valid JSON
+ */
+export async function readJsonBody(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json()
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Build the structured 400 response for a failed validation
+ */
+export function validationErrorResponse(issues: ValidationIssue[]): NextResponse {
+  return NextResponse.json({ error: 'Invalid request body', issues }, { status: 400 })
+}
+
+/**
+ * Whether a string can name a party group (already normalized, as used in history URLs)
+ */
+export function isValidPartyGroup(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.length > 0 &&
+    value.length <= MAX_NAME_LENGTH &&
+    value === normalizeName(value)
+  )
+}
+
+function isObject(value: unknown): value is Body {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function notAnObject(): ValidationResult<never> {
+  return { ok: false, issues: [{ field: 'body', message: 'Expected a JSON object' }] }
+}
+
+function checkName(value: unknown, field: string, issues: ValidationIssue[]): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    issues.push({ field, message: 'Must be a non-empty string' })
+    return ''
+  }
+  if (value.trim().length > MAX_NAME_LENGTH) {
+    issues.push({ field, message: `Must be at most ${MAX_NAME_LENGTH} characters` })
+  }
+  return value
+}
+
+function checkNameList(
+  value: unknown,
+  field: string,
+  maxItems: number,
+  issues: ValidationIssue[]
+): string[] {
+  if (!Array.isArray(value)) {
+    issues.push({ field, message: 'Must be an array of strings' })
+    return []
+  }
+  if (value.length > maxItems) {
+    issues.push({ field, message: `Must have at most ${maxItems} entries` })
+    return []
+  }
+  return value.map((item, i) => checkName(item, `${field}[${i}]`, issues))
+}
+
+// Team mode: at least two teams, and every player on exactly one of them
+function checkTeams(value: unknown, playerNames: string[], issues: ValidationIssue[]): TeamConfig[] | undefined {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || value.length > MAX_LIST_ITEMS) {
+    issues.push({ field: 'teams', message: `Must be an array of at most ${MAX_LIST_ITEMS} teams` })
+    return undefined
+  }
+
+  const teams = value.map((team, i): TeamConfig => {
+    if (!isObject(team)) {
+      issues.push({ field: `teams[${i}]`, message: 'Expected a team object' })
+      return { name: '', members: [] }
+    }
+    const members = checkNameList(team.members, `teams[${i}].members`, MAX_PLAYERS, issues)
+    if (Array.isArray(team.members) && team.members.length === 0) {
+      issues.push({ field: `teams[${i}].members`, message: 'A team needs at least one member' })
+    }
+    return { name: checkName(team.name, `teams[${i}].name`, issues), members }
+  })
+
+  const teamNames = new Set(teams.map((t) => normalizeName(t.name)))
+  if (teamNames.size < 2) {
+    issues.push({ field: 'teams', message: 'At least 2 teams with different names required' })
+  }
+
+  const players = new Set(playerNames.map(normalizeName))
+  const placed = new Set<string>()
+  teams.forEach((team, i) => {
+    for (const member of team.members.map(normalizeName)) {
+      if (!players.has(member)) {
+        issues.push({ field: `teams[${i}].members`, message: `Unknown player: ${member}` })
+      } else if (placed.has(member)) {
+        issues.push({ field: `teams[${i}].members`, message: `Player is on more than one team: ${member}` })
+      }
+      placed.add(member)
+    }
+  })
+  if (Array.from(players).some((player) => !placed.has(player))) {
+    issues.push({ field: 'teams', message: 'Every player must be on a team' })
+  }
+  return teams
+}
+
+// Settings of a new room config
+function checkRoomSettings(body: Body, issues: ValidationIssue[]) {
+  const playerNames = checkNameList(body.playerNames, 'playerNames', MAX_PLAYERS, issues)
+  const uniquePlayers = new Set(playerNames.map(normalizeName))
+  if (Array.isArray(body.playerNames) && uniquePlayers.size < MIN_PLAYERS) {
+    issues.push({ field: 'playerNames', message: `At least ${MIN_PLAYERS} unique players required` })
+  }
+
+  const rooms = checkNameList(body.rooms, 'rooms', MAX_LIST_ITEMS, issues)
+  const objects = checkNameList(body.objects, 'objects', MAX_LIST_ITEMS, issues)
+
+  const interval = body.roomRotationIntervalMinutes
+  if (
+    interval !== undefined &&
+    (typeof interval !== 'number' ||
+      !Number.isInteger(interval) ||
+      interval < 1 ||
+      interval > MAX_ROTATION_INTERVAL_MINUTES)
+  ) {
+    issues.push({
+      field: 'roomRotationIntervalMinutes',
+      message: `Must be a whole number between 1 and ${MAX_ROTATION_INTERVAL_MINUTES}`,
+    })
+  }
+
+  const confirmTimeout = body.eliminationConfirmTimeoutMinutes
+  if (
+    confirmTimeout !== undefined &&
+    (typeof confirmTimeout !== 'number' ||
+      !Number.isInteger(confirmTimeout) ||
+      confirmTimeout < 1 ||
+      confirmTimeout > MAX_CONFIRM_TIMEOUT_MINUTES)
+  ) {
+    issues.push({
+      field: 'eliminationConfirmTimeoutMinutes',
+      message: `Must be a whole number between 1 and ${MAX_CONFIRM_TIMEOUT_MINUTES}`,
+    })
+  }
+
+  const rotationAnchor = body.rotationAnchor
+  if (rotationAnchor !== undefined && !ROTATION_ANCHORS.includes(rotationAnchor as RotationAnchor)) {
+    issues.push({ field: 'rotationAnchor', message: `Must be one of ${ROTATION_ANCHORS.join(', ')}` })
+  }
+  if (body.rotateObjects !== undefined && typeof body.rotateObjects !== 'boolean') {
+    issues.push({ field: 'rotateObjects', message: 'Expected a boolean' })
+  }
+
+  // Optional; stored normalized so it doubles as the history key
+  const partyGroup = body.partyGroup === undefined ? undefined : checkName(body.partyGroup, 'partyGroup', issues)
+
+  const teams = checkTeams(body.teams, playerNames, issues)
+
+  // Most Wanted mode; contracts replace the team chain, so the two do not mix
+  const contracts = body.contractsPerPlayer
+  if (
+    contracts !== undefined &&
+    (typeof contracts !== 'number' ||
+      !Number.isInteger(contracts) ||
+      contracts < 1 ||
+      contracts > MAX_CONTRACTS_PER_PLAYER)
+  ) {
+    issues.push({
+      field: 'contractsPerPlayer',
+      message: `Must be a whole number between 1 and ${MAX_CONTRACTS_PER_PLAYER}`,
+    })
+  } else if (contracts !== undefined && teams) {
+    issues.push({ field: 'contractsPerPlayer', message: 'Cannot be combined with teams' })
+  }
+
+  const duration = body.gameDurationMinutes
+  if (
+    duration !== undefined &&
+    (typeof duration !== 'number' ||
+      !Number.isInteger(duration) ||
+      duration < 1 ||
+      duration > MAX_GAME_DURATION_MINUTES)
+  ) {
+    issues.push({
+      field: 'gameDurationMinutes',
+      message: `Must be a whole number between 1 and ${MAX_GAME_DURATION_MINUTES}`,
+    })
+  }
+
+  const timeUpMode = body.timeUpMode
+  if (timeUpMode !== undefined && !TIME_UP_MODES.includes(timeUpMode as TimeUpMode)) {
+    issues.push({ field: 'timeUpMode', message: `Must be one of ${TIME_UP_MODES.join(', ')}` })
+  }
+
+  return {
+    playerNames,
+    rooms,
+    objects,
+    roomRotationIntervalMinutes: interval as number | undefined,
+    eliminationConfirmTimeoutMinutes: confirmTimeout as number | undefined,
+    rotationAnchor: rotationAnchor as RotationAnchor | undefined,
+    rotateObjects: body.rotateObjects as boolean | undefined,
+    partyGroup: partyGroup ? normalizeName(partyGroup) : undefined,
+    teams,
+    contractsPerPlayer: contracts as number | undefined,
+    gameDurationMinutes: duration as number | undefined,
+    timeUpMode: timeUpMode as TimeUpMode | undefined,
+  }
+}
+
+/**
+ * Validate the config sent to POST /api/game
+ */
+export function validateNewRoomConfig(body: unknown): ValidationResult<NewRoomConfig> {
+  if (!isObject(body)) return notAnObject()
+  const issues: ValidationIssue[] = []
+  const settings = checkRoomSettings(body, issues)
+
+  if (body.hostPin !== undefined && (typeof body.hostPin !== 'string' || !PIN_PATTERN.test(body.hostPin))) {
+    issues.push({ field: 'hostPin', message: 'Must be exactly 4 digits' })
+  }
+
+  const digits = body.roomNumberDigits
+  if (digits !== undefined && !ROOM_NUMBER_DIGITS.includes(digits as RoomNumberDigits)) {
+    issues.push({ field: 'roomNumberDigits', message: 'Room number must have 4, 5 or 6 digits' })
+  }
+
+  if (issues.length > 0) return { ok: false, issues }
+  return {
+    ok: true,
+    value: {
+      ...settings,
+      hostPin: body.hostPin as string | undefined,
+      roomNumberDigits: digits as RoomNumberDigits | undefined,
+    },
+  }
+}
+
+/**
+ * Validate a body that names a single player
+ * (claims: PATCH /api/game/{room}, host moderation: POST /api/game/{room}/admin/*)
+ */
+export function validatePlayerNameBody(body: unknown): ValidationResult<{ playerName: string }> {
+  if (!isObject(body)) return notAnObject()
+  const issues: ValidationIssue[] = []
+  const playerName = checkName(body.playerName, 'playerName', issues)
+
+  if (issues.length > 0) return { ok: false, issues }
+  return { ok: true, value: { playerName } }
+}
+
+/**
+ * Validate an elimination report (POST /api/game/{room}/eliminate)
+ * Self-reported deaths send selfReported: true instead of a killer (killerNameNormalized is null)
+ * Older clients sent "dead_<name>" as the killer, which is still accepted
+ */
+export function validateEliminationBody(
+  body: unknown
+): ValidationResult<{ killerNameNormalized: string | null; targetNameNormalized: string }> {
+  if (!isObject(body)) return notAnObject()
+  const issues: ValidationIssue[] = []
+  const legacySelfReport = typeof body.killerNameNormalized === 'string' && body.killerNameNormalized.startsWith('dead_')
+  const selfReported = body.selfReported === true || legacySelfReport
+
+  if (body.selfReported !== undefined && typeof body.selfReported !== 'boolean') {
+    issues.push({ field: 'selfReported', message: 'Must be a boolean' })
+  }
+  const killerNameNormalized = selfReported ? null : checkName(body.killerNameNormalized, 'killerNameNormalized', issues)
+  const targetNameNormalized = checkName(body.targetNameNormalized, 'targetNameNormalized', issues)
+
+  if (issues.length > 0) return { ok: false, issues }
+  return { ok: true, value: { killerNameNormalized, targetNameNormalized } }
+}
+
+/**
+ * Validate a host PIN (POST /api/game/{room}/host-session)
+ */
+export function validateHostSessionBody(body: unknown): ValidationResult<{ pin: string }> {
+  if (!isObject(body)) return notAnObject()
+  if (typeof body.pin !== 'string' || !PIN_PATTERN.test(body.pin)) {
+    return { ok: false, issues: [{ field: 'pin', message: 'Must be exactly 4 digits' }] }
+  }
+  return { ok: true, value: { pin: body.pin } }
+}
+
+/**
+ * Validate a victim's answer to a reported kill (POST /api/game/{room}/eliminate/confirm)
+ */
+export function validateConfirmEliminationBody(body: unknown): ValidationResult<{ confirmed: boolean }> {
+  if (!isObject(body)) return notAnObject()
+  if (typeof body.confirmed !== 'boolean') {
+    return { ok: false, issues: [{ field: 'confirmed', message: 'Must be a boolean' }] }
+  }
+  return { ok: true, value: { confirmed: body.confirmed } }
+}
+
+/**
+ * Validate the host's decision on a disputed kill (POST /api/game/{room}/admin/resolve)
+ */
+export function validateResolveEliminationBody(
+  body: unknown
+): ValidationResult<{ id: string; approve: boolean }> {
+  if (!isObject(body)) return notAnObject()
+  const issues: ValidationIssue[] = []
+  if (typeof body.id !== 'string' || body.id.length === 0) {
+    issues.push({ field: 'id', message: 'Must be a non-empty string' })
+  }
+  if (typeof body.approve !== 'boolean') {
+    issues.push({ field: 'approve', message: 'Must be a boolean' })
+  }
+
+  if (issues.length > 0) return { ok: false, issues }
+  return { ok: true, value: { id: body.id as string, approve: body.approve as boolean } }
+}